@@ -10,7 +10,7 @@ type DevLoginResponse = {
 };
 
 type CellEdges = Record<string, string>;
-type VisibleCell = { x: number; y: number; edges?: CellEdges; level?: number };
+type VisibleCell = { x: number; y: number; edges?: CellEdges; level?: number; revealed?: boolean };
 
 const statusEl = document.getElementById('status') as HTMLSpanElement;
 const mainEl = document.getElementById('main') as HTMLPreElement;
@@ -25,7 +25,8 @@ let ws: WebSocket | null = null;
 let seq = 0;
 let lastState: any = null;
 
-type DiscoveredCell = { level: number; x: number; y: number; edges: CellEdges };
+// revealed: seen along our line of sight only (not globally discovered yet)
+type DiscoveredCell = { level: number; x: number; y: number; edges: CellEdges; revealed?: boolean };
 const discovered = new Map<string, DiscoveredCell>();
 
 function key(level: number, x: number, y: number) {
@@ -103,11 +104,12 @@ function normalizeEdges(v: any): CellEdges {
   return out;
 }
 
-function mergeCell(level: number, x: number, y: number, edges: CellEdges) {
+// revealed is undefined for view-cone cells: they keep whatever the minimap said.
+function mergeCell(level: number, x: number, y: number, edges: CellEdges, revealed?: boolean) {
   const k = key(level, x, y);
   const prev = discovered.get(k);
   if (!prev) {
-    discovered.set(k, { level, x, y, edges });
+    discovered.set(k, { level, x, y, edges, revealed: !!revealed });
     return;
   }
 
@@ -116,7 +118,7 @@ function mergeCell(level: number, x: number, y: number, edges: CellEdges) {
     if (ev === null || ev === undefined) continue;
     merged[ek] = String(ev);
   }
-  discovered.set(k, { level, x, y, edges: merged });
+  discovered.set(k, { level, x, y, edges: merged, revealed: revealed === undefined ? prev.revealed : !!prev.revealed && revealed });
 }
 
 function mergeDiscovered(s: any) {
@@ -136,7 +138,7 @@ function mergeDiscovered(s: any) {
 
   for (const c of minimapCells) {
     if (typeof c?.x !== 'number' || typeof c?.y !== 'number') continue;
-    mergeCell(level, c.x, c.y, normalizeEdges(c.edges));
+    mergeCell(level, c.x, c.y, normalizeEdges(c.edges), c.revealed === true);
   }
 
   // Merge visible cells (so walls/doors revealed immediately)
@@ -282,7 +284,7 @@ function drawMinimap(s: any) {
     const px = (halfCellsX + dx) * cellPx;
     const py = (halfCellsY + dy) * cellPx;
 
-    ctx.fillStyle = '#e9e9e9';
+    ctx.fillStyle = cell.revealed ? '#f5f5f5' : '#e9e9e9';
     ctx.fillRect(px, py, cellPx, cellPx);
 
     const e = cell.edges || {};
@@ -296,19 +298,19 @@ function drawMinimap(s: any) {
     const sEdge = e['S'] ?? e['s'];
     const w = e['W'] ?? e['w'];
 
-    if (n && (isWallEdge(n) || isDoorEdge(n))) {
+    if (n && (isWallEdge(n) || isDoorEdge(n) || hasLever(n))) {
       drawEdgeLine(left, top, right, top, isDoorEdge(n) ? 'door' : 'wall');
       if (hasLever(n)) drawLeverDashOnEdge(left, top, right, top);
     }
-    if (sEdge && (isWallEdge(sEdge) || isDoorEdge(sEdge))) {
+    if (sEdge && (isWallEdge(sEdge) || isDoorEdge(sEdge) || hasLever(sEdge))) {
       drawEdgeLine(left, bottom, right, bottom, isDoorEdge(sEdge) ? 'door' : 'wall');
       if (hasLever(sEdge)) drawLeverDashOnEdge(left, bottom, right, bottom);
     }
-    if (w && (isWallEdge(w) || isDoorEdge(w))) {
+    if (w && (isWallEdge(w) || isDoorEdge(w) || hasLever(w))) {
       drawEdgeLine(left, top, left, bottom, isDoorEdge(w) ? 'door' : 'wall');
       if (hasLever(w)) drawLeverDashOnEdge(left, top, left, bottom);
     }
-    if (ee && (isWallEdge(ee) || isDoorEdge(ee))) {
+    if (ee && (isWallEdge(ee) || isDoorEdge(ee) || hasLever(ee))) {
       drawEdgeLine(right, top, right, bottom, isDoorEdge(ee) ? 'door' : 'wall');
       if (hasLever(ee)) drawLeverDashOnEdge(right, top, right, bottom);
     }
@@ -386,6 +388,18 @@ function sendMoveBackward() {
   send({ type: 'move', payload: { dir: 'B' } });
 }
 
+// Id of the first object in reach (own or adjacent cell) that matches.
+function objectInReach(s: any, match: (o: any) => boolean): string | null {
+  const you = s.you;
+  if (!you || !Array.isArray(s.visible_cells)) return null;
+  for (const c of s.visible_cells) {
+    if (Math.abs(c.x - you.x) + Math.abs(c.y - you.y) > 1) continue;
+    const o = (c.objects ?? []).find(match);
+    if (o) return String(o.id);
+  }
+  return null;
+}
+
 window.addEventListener(
   'keydown',
   (ev) => {
@@ -405,6 +419,48 @@ window.addEventListener(
     } else if (ev.key === 'ArrowDown') {
       ev.preventDefault();
       sendMoveBackward();
+    } else if (ev.key === 'c') {
+      // Context actions on the current cell
+      ev.preventDefault();
+      send({ type: 'interact', payload: { action: 'climb' } });
+    } else if (ev.key === 'j') {
+      ev.preventDefault();
+      send({ type: 'interact', payload: { action: 'jump' } });
+    } else if (ev.key === 'd') {
+      ev.preventDefault();
+      send({ type: 'interact', payload: { action: 'detect' } });
+    } else if (ev.key === 'p') {
+      // Lockpick the door we are facing
+      ev.preventDefault();
+      send({ type: 'interact', payload: { action: 'lockpick', target: { kind: 'edge', dir: lastState.you?.face ?? 'N' } } });
+    } else if (ev.key === 'o') {
+      // Open the nearest unopened chest in reach (own or adjacent cell)
+      ev.preventDefault();
+      const chestId = objectInReach(lastState, (o) => o?.kind === 'chest' && !o.opened);
+      if (chestId) send({ type: 'interact', payload: { action: 'open', target: { kind: 'chest', chest_id: chestId } } });
+    } else if (ev.key === 'l') {
+      // Loot a corpse chest in reach (only corpses we may see are sent)
+      ev.preventDefault();
+      const chestId = objectInReach(lastState, (o) => o?.kind === 'corpse');
+      if (chestId) send({ type: 'interact', payload: { action: 'loot', target: { kind: 'corpse', chest_id: chestId } } });
+    } else if (ev.key === 'b' || ev.key === 'B') {
+      // Pick up (b) or bury (shift+b) bones in reach
+      ev.preventDefault();
+      const dropId = objectInReach(lastState, (o) => o?.kind === 'bones');
+      const action = ev.key === 'b' ? 'pickup_bones' : 'bury_bones';
+      if (dropId) send({ type: 'interact', payload: { action, target: { kind: 'bones', drop_id: dropId } } });
+    } else if (ev.key === 'h') {
+      // Auto-travel back to the hub through discovered cells
+      ev.preventDefault();
+      send({ type: 'travel_to', payload: { target: 'hub' } });
+    } else if (ev.key === 'a') {
+      // Attack whatever stands in the faced cell
+      ev.preventDefault();
+      send({ type: 'attack', payload: {} });
+    } else if (ev.key === 'e') {
+      // Egg of Sanctuary: 3-5 s channel back to this level's hub
+      ev.preventDefault();
+      send({ type: 'use_egg', payload: {} });
     }
   },
   { capture: true }
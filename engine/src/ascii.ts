@@ -0,0 +1,190 @@
+// engine/src/ascii.ts
+//
+// Human-readable map format for a rectangular region (debugging, golden files, bug reports,
+// authored town maps). One text row per grid line:
+//
+//   ; origin=0,0 size=3x2     header (optional on parse; other ';' lines are comments)
+//   +-+-+-+
+//   |. .|:|                   cells:   '.' floor   ':' room floor   ' ' solid (all walls)
+//   +-+D+?+                   edges:   '-' '|' wall   ' ' open   'D' door   'L' locked door   '?' lever
+//   |. . .|                   corners: '+' (ascii) or box-drawing (box); ignored on parse
+//   +-+-+-+
+//
+// Cells sit at odd (col, row) grid positions and edges between them, so a w x h region is
+// (2w+1) x (2h+1) characters. Box style swaps walls/corners for box-drawing characters.
+
+import type { ChunkEdges, Dir, EdgeType } from './types.js';
+import type { EdgeSource, Rect } from './invariants.js';
+import type { EdgeQueryPurpose, WorldOverlayProvider } from './world.js';
+import { baseEdgeTypeFromChunk } from './maze.js';
+
+export type AsciiStyle = 'ascii' | 'box';
+
+export type AsciiCellKind = 'floor' | 'room' | 'solid';
+
+export interface AsciiMap {
+  rect: Rect;
+  cells: Array<{ x: number; y: number; kind: AsciiCellKind }>;
+  // Every canonical E/S edge of the region, including the west/north/east/south borders.
+  edges: Array<{ x: number; y: number; dir: 'E' | 'S'; edgeType: EdgeType }>;
+}
+
+const EDGE_TO_GLYPH: Record<EdgeType, { E: string; S: string }> = {
+  wall: { E: '|', S: '-' },
+  open: { E: ' ', S: ' ' },
+  door_unlocked: { E: 'D', S: 'D' },
+  door_locked: { E: 'L', S: 'L' },
+  lever_secret: { E: '?', S: '?' }
+};
+
+const GLYPH_TO_EDGE: Record<string, EdgeType> = {
+  '-': 'wall',
+  '|': 'wall',
+  '─': 'wall',
+  '│': 'wall',
+  ' ': 'open',
+  D: 'door_unlocked',
+  L: 'door_locked',
+  '?': 'lever_secret'
+};
+
+// Box corners indexed by line bits: up=1, right=2, down=4, left=8.
+const BOX_CORNERS = [' ', '╵', '╶', '└', '╷', '│', '┌', '├', '╴', '┘', '─', '┴', '┐', '┤', '┬', '┼'];
+
+/**
+ * Edge source over one generated chunk, in world coordinates (borders read as walls).
+ */
+export function chunkEdgeSource(chunk: ChunkEdges): EdgeSource {
+  const ox = chunk.chunkX * 64;
+  const oy = chunk.chunkY * 64;
+  const inChunk = (lx: number, ly: number) => lx >= 0 && ly >= 0 && lx < 64 && ly < 64;
+  return {
+    edgeType: (x: number, y: number, dir: Dir) => {
+      const lx = x - ox;
+      const ly = y - oy;
+      if (!inChunk(lx, ly)) return 'wall';
+      if (dir === 'E' && lx === 63) return 'wall';
+      if (dir === 'S' && ly === 63) return 'wall';
+      return baseEdgeTypeFromChunk(chunk, lx, ly, dir);
+    },
+    isRoom: (x: number, y: number) => {
+      const lx = x - ox;
+      const ly = y - oy;
+      return inChunk(lx, ly) && chunk.room[ly * 64 + lx] === 1;
+    }
+  };
+}
+
+/**
+ * Edge source over stored overrides only (missing rows read as walls). Uses the 'minimap'
+ * purpose by default so rendering never materializes frontiers.
+ */
+export function overlayEdgeSource(overlay: WorldOverlayProvider, levelId: number, purpose: EdgeQueryPurpose = 'minimap'): EdgeSource {
+  return {
+    edgeType: (x: number, y: number, dir: Dir) => overlay.getEdgeOverride(levelId, x, y, dir, purpose)?.edgeType ?? 'wall'
+  };
+}
+
+export function renderAscii(src: EdgeSource, rect: Rect, opts: { style?: AsciiStyle; header?: boolean } = {}): string {
+  const style = opts.style ?? 'ascii';
+  const rows: string[][] = [];
+  for (let r = 0; r < 2 * rect.h + 1; r++) rows.push(new Array<string>(2 * rect.w + 1).fill(' '));
+
+  // Grid position (col,row) of a cell/edge relative to the rect.
+  const cellPos = (x: number, y: number) => ({ col: 2 * (x - rect.x) + 1, row: 2 * (y - rect.y) + 1 });
+
+  for (let y = rect.y - 1; y < rect.y + rect.h; y++) {
+    for (let x = rect.x - 1; x < rect.x + rect.w; x++) {
+      const p = cellPos(x, y);
+      if (y >= rect.y) rows[p.row]![p.col + 1] = glyphFor(src.edgeType(x, y, 'E'), 'E', style);
+      if (x >= rect.x) rows[p.row + 1]![p.col] = glyphFor(src.edgeType(x, y, 'S'), 'S', style);
+    }
+  }
+
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      const p = cellPos(x, y);
+      const solid = (['N', 'E', 'S', 'W'] as const).every((d) => src.edgeType(x, y, d) === 'wall');
+      rows[p.row]![p.col] = src.isRoom?.(x, y) ? ':' : solid ? ' ' : '.';
+    }
+  }
+
+  for (let row = 0; row < rows.length; row += 2) {
+    for (let col = 0; col < rows[0]!.length; col += 2) {
+      if (style === 'ascii') {
+        rows[row]![col] = '+';
+        continue;
+      }
+      const line = (r: number, c: number) => r >= 0 && c >= 0 && r < rows.length && c < rows[0]!.length && rows[r]![c] !== ' ';
+      const bits = (line(row - 1, col) ? 1 : 0) | (line(row, col + 1) ? 2 : 0) | (line(row + 1, col) ? 4 : 0) | (line(row, col - 1) ? 8 : 0);
+      rows[row]![col] = BOX_CORNERS[bits]!;
+    }
+  }
+
+  const lines = rows.map((r) => r.join(''));
+  if (opts.header !== false) lines.unshift(`; origin=${rect.x},${rect.y} size=${rect.w}x${rect.h}`);
+  return lines.join('\n') + '\n';
+}
+
+function glyphFor(e: EdgeType, dir: 'E' | 'S', style: AsciiStyle): string {
+  if (style === 'box' && e === 'wall') return dir === 'E' ? '│' : '─';
+  return EDGE_TO_GLYPH[e][dir];
+}
+
+/**
+ * Parses renderAscii output (either style) or a hand-written map. origin defaults to the
+ * header's origin, else 0,0. Throws on malformed input.
+ */
+export function parseAscii(text: string | string[], opts: { origin?: { x: number; y: number } } = {}): AsciiMap {
+  const all = Array.isArray(text) ? text : text.replace(/\n$/, '').split('\n');
+
+  let origin = opts.origin ?? { x: 0, y: 0 };
+  const rows: string[] = [];
+  for (const line of all) {
+    if (line.startsWith(';')) {
+      const m = /origin=(-?\d+),(-?\d+)/.exec(line);
+      if (m && !opts.origin) origin = { x: Number(m[1]), y: Number(m[2]) };
+      continue;
+    }
+    rows.push(line);
+  }
+
+  if (rows.length < 3 || rows.length % 2 === 0) throw new Error('grid must have an odd number (>= 3) of rows');
+  const width = Array.from(rows[0]!).length;
+  if (width < 3 || width % 2 === 0) throw new Error('grid rows must have an odd width (>= 3)');
+  const grid = rows.map((r, i) => {
+    const chars = Array.from(r);
+    if (chars.length !== width) throw new Error(`grid row ${i} has width ${chars.length}, expected ${width}`);
+    return chars;
+  });
+
+  const rect: Rect = { x: origin.x, y: origin.y, w: (width - 1) / 2, h: (grid.length - 1) / 2 };
+  const cells: AsciiMap['cells'] = [];
+  const edges: AsciiMap['edges'] = [];
+
+  for (let cy = 0; cy < rect.h; cy++) {
+    for (let cx = 0; cx < rect.w; cx++) {
+      const g = grid[2 * cy + 1]![2 * cx + 1]!;
+      const kind: AsciiCellKind | null = g === '.' ? 'floor' : g === ':' ? 'room' : g === ' ' ? 'solid' : null;
+      if (!kind) throw new Error(`bad cell glyph '${g}' at cell ${cx},${cy}`);
+      cells.push({ x: rect.x + cx, y: rect.y + cy, kind });
+    }
+  }
+
+  // E edges at column 2*cx+2 (cx from -1 = west border); S edges at row 2*cy+2 (cy from -1 = north border).
+  for (let cy = -1; cy < rect.h; cy++) {
+    for (let cx = -1; cx < rect.w; cx++) {
+      for (const dir of ['E', 'S'] as const) {
+        if (dir === 'E' ? cy < 0 : cx < 0) continue;
+        const col = dir === 'E' ? 2 * cx + 2 : 2 * cx + 1;
+        const row = dir === 'E' ? 2 * cy + 1 : 2 * cy + 2;
+        const glyph = grid[row]![col]!;
+        const edgeType = GLYPH_TO_EDGE[glyph];
+        if (!edgeType) throw new Error(`bad edge glyph '${glyph}' at grid ${col},${row}`);
+        edges.push({ x: rect.x + cx, y: rect.y + cy, dir, edgeType });
+      }
+    }
+  }
+
+  return { rect, cells, edges };
+}
@@ -0,0 +1,81 @@
+// engine/src/combat.ts
+//
+// Melee combat (GAME_SPEC.md "Creatures"): a player hits the entity in the faced adjacent cell,
+// a monster hits the character it is chasing once adjacent.
+//
+// Pure: the server rolls with an injected RNG, applies the damage, persists hp and the combat
+// flags (character_position.in_combat / last_attacked_at_ms) and detects death.
+
+import type { CellCoord, Dir } from './types.js';
+import type { EdgeQueryPurpose } from './world.js';
+import { step } from './world.js';
+import { monsterDef } from './monsters.js';
+import type { Entity, TickContext } from './entities.js';
+
+// Inclusive [min, max] damage per hit.
+export type DamageRange = readonly [number, number];
+
+export const PLAYER_MAX_HP = 100;
+export const PLAYER_ATTACK_DAMAGE: DamageRange = [2, 6];
+export const ATTACK_COOLDOWN_MS = 1000;
+
+// A character leaves combat once no monster targets it and it has not been hit for this long.
+export const COMBAT_TIMEOUT_MS = 10_000;
+
+export interface CombatWorld {
+  canTraverseEdge(levelId: number, x: number, y: number, dir: Dir, purpose?: EdgeQueryPurpose): boolean;
+}
+
+export type MonsterHit = { entity: Entity; targetId: string; damage: number };
+
+export function rollDamage(range: DamageRange, rng: () => number): number {
+  return range[0] + Math.floor(rng() * (range[1] - range[0] + 1));
+}
+
+/**
+ * The cell a player attacks: the faced neighbour, if the edge between is open. Read-only edge
+ * query, so attacking never materializes a frontier door.
+ */
+export function attackTarget(world: CombatWorld, player: { levelId: number; x: number; y: number; face: Dir }): CellCoord | null {
+  if (!world.canTraverseEdge(player.levelId, player.x, player.y, player.face, 'minimap')) return null;
+  const { nx, ny } = step(player.x, player.y, player.face);
+  return { levelId: player.levelId, x: nx, y: ny };
+}
+
+/**
+ * A monster that was hit chases its attacker, whatever its temperament.
+ */
+export function provoke(entity: Entity, characterId: string): Entity {
+  return { ...entity, ai: { ...entity.ai, targetId: characterId } };
+}
+
+/**
+ * Monster retaliation, after tickEntity: hits its target when it is orthogonally adjacent
+ * through an open edge and the attack interval has passed. Passive and neutral monsters only
+ * have a target once provoked, so they never start a fight.
+ */
+export function monsterAttack(entity: Entity, ctx: TickContext): MonsterHit | null {
+  if (entity.type !== 'monster' || !entity.ai.targetId) return null;
+  const def = monsterDef(entity.defId);
+  if (!def || ctx.nowMs < entity.ai.attackReadyAtMs) return null;
+
+  const target = ctx.players.find((p) => p.id === entity.ai.targetId && p.levelId === entity.levelId);
+  if (!target || Math.abs(target.x - entity.x) + Math.abs(target.y - entity.y) !== 1) return null;
+
+  const dir: Dir = target.x > entity.x ? 'E' : target.x < entity.x ? 'W' : target.y > entity.y ? 'S' : 'N';
+  if (!ctx.world.canTraverseEdge(entity.levelId, entity.x, entity.y, dir, 'minimap', entity.entityId)) return null;
+
+  return {
+    entity: { ...entity, ai: { ...entity.ai, attackReadyAtMs: ctx.nowMs + def.attackIntervalMs } },
+    targetId: target.id,
+    damage: rollDamage(def.damage, ctx.rng)
+  };
+}
+
+/**
+ * Whether a character is still in combat: targeted by a monster, or hit within the timeout.
+ */
+export function stillInCombat(lastAttackedAtMs: number | null, targeted: boolean, nowMs: number): boolean {
+  if (targeted) return true;
+  return lastAttackedAtMs !== null && nowMs - lastAttackedAtMs < COMBAT_TIMEOUT_MS;
+}
@@ -0,0 +1,248 @@
+// engine/src/connectors.ts
+//
+// Deterministic level connectors (GAME_SPEC.md "Ladders and trapdoors").
+//
+// - Ladder: bidirectional, level L <-> L+1. Both endpoints are connectors.
+// - Chute: one-way trapdoor on level L dropping 1..3 levels to a landing cell.
+//
+// Placement is derived from (seed, level, chunkX, chunkY) plus the generated chunk itself,
+// so either endpoint can be resolved without scanning other chunks. Level 0 (town) is authored
+// and has no generated connectors.
+
+import { XorShift32, hashSeed } from './prng.js';
+import { baseEdgeTypeFromChunk } from './maze.js';
+import type { ChunkEdges, Connector } from './types.js';
+
+const CHUNK_SIZE = 64;
+
+// Roughly one ladder down per LADDER_ONE_IN chunks, one chute per CHUTE_ONE_IN chunks.
+const LADDER_ONE_IN = 2;
+const CHUTE_ONE_IN = 4;
+
+// Fall damage per level dropped.
+export const FALL_DAMAGE_PER_LEVEL = 3;
+
+export type ChunkSource = (levelId: number, chunkX: number, chunkY: number) => ChunkEdges;
+
+type Cell = { x: number; y: number }; // chunk-local
+
+/**
+ * Accidental falls always hurt (scaled by levels dropped).
+ * Intentional jumps are free for drops <= 2 and hurt for drops >= 3.
+ */
+export function fallDamage(drop: number, intentional: boolean): number {
+  if (drop <= 0) return 0;
+  if (intentional) return drop >= 3 ? (drop - 2) * FALL_DAMAGE_PER_LEVEL : 0;
+  return drop * FALL_DAMAGE_PER_LEVEL;
+}
+
+type Endpoint = Cell & { kind: Connector['kind']; toLevelId: number; resolveTo: () => Cell | null };
+
+/**
+ * All connectors whose cell lies in the given chunk.
+ */
+export function connectorsInChunk(seed: number, levelId: number, chunkX: number, chunkY: number, chunks: ChunkSource): Connector[] {
+  const out: Connector[] = [];
+  for (const e of endpointsInChunk(seed, levelId, chunkX, chunkY, chunks)) {
+    const c = toConnector(e, levelId, chunkX, chunkY);
+    if (c) out.push(c);
+  }
+  return out;
+}
+
+/**
+ * Connector at one cell. Only generates the destination chunk when the cell matches.
+ */
+export function connectorAt(seed: number, levelId: number, x: number, y: number, chunks: ChunkSource): Connector | null {
+  const chunkX = Math.floor(x / CHUNK_SIZE);
+  const chunkY = Math.floor(y / CHUNK_SIZE);
+  for (const e of endpointsInChunk(seed, levelId, chunkX, chunkY, chunks)) {
+    if (chunkX * CHUNK_SIZE + e.x === x && chunkY * CHUNK_SIZE + e.y === y) return toConnector(e, levelId, chunkX, chunkY);
+  }
+  return null;
+}
+
+/**
+ * Per-engine cache of connector cells by chunk (bounded like ChunkCache).
+ */
+export class ConnectorIndex {
+  private readonly endpoints = new Map<string, Endpoint[]>();
+
+  constructor(
+    private readonly seed: number,
+    private readonly chunks: ChunkSource,
+    private readonly maxChunks: number = 64
+  ) {}
+
+  at(levelId: number, x: number, y: number): Connector | null {
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkY = Math.floor(y / CHUNK_SIZE);
+    const e = this.find(levelId, x, y);
+    return e ? toConnector(e, levelId, chunkX, chunkY) : null;
+  }
+
+  // Kind + destination level only; never generates another level's chunk.
+  markerAt(levelId: number, x: number, y: number): { kind: Connector['kind']; toLevelId: number } | null {
+    const e = this.find(levelId, x, y);
+    return e ? { kind: e.kind, toLevelId: e.toLevelId } : null;
+  }
+
+  /**
+   * All connectors in one chunk (resolves every destination).
+   */
+  inChunk(levelId: number, chunkX: number, chunkY: number): Connector[] {
+    const out: Connector[] = [];
+    for (const e of this.chunkEndpoints(levelId, chunkX, chunkY)) {
+      const c = toConnector(e, levelId, chunkX, chunkY);
+      if (c) out.push(c);
+    }
+    return out;
+  }
+
+  private find(levelId: number, x: number, y: number): Endpoint | null {
+    const chunkX = Math.floor(x / CHUNK_SIZE);
+    const chunkY = Math.floor(y / CHUNK_SIZE);
+    const lx = x - chunkX * CHUNK_SIZE;
+    const ly = y - chunkY * CHUNK_SIZE;
+    return this.chunkEndpoints(levelId, chunkX, chunkY).find((e) => e.x === lx && e.y === ly) ?? null;
+  }
+
+  private chunkEndpoints(levelId: number, chunkX: number, chunkY: number): Endpoint[] {
+    const k = `${levelId}:${chunkX}:${chunkY}`;
+
+    let list = this.endpoints.get(k);
+    if (!list) {
+      list = endpointsInChunk(this.seed, levelId, chunkX, chunkY, this.chunks);
+      this.endpoints.set(k, list);
+      while (this.endpoints.size > Math.max(1, this.maxChunks)) {
+        this.endpoints.delete(this.endpoints.keys().next().value as string);
+      }
+    }
+    return list;
+  }
+}
+
+function toConnector(e: Endpoint, levelId: number, chunkX: number, chunkY: number): Connector | null {
+  const to = e.resolveTo();
+  if (!to) return null;
+  const ox = chunkX * CHUNK_SIZE;
+  const oy = chunkY * CHUNK_SIZE;
+  return { kind: e.kind, levelId, x: ox + e.x, y: oy + e.y, toLevelId: e.toLevelId, toX: ox + to.x, toY: oy + to.y };
+}
+
+// Connector cells on this level (reads only this level's chunk); destinations resolve lazily.
+function endpointsInChunk(seed: number, levelId: number, chunkX: number, chunkY: number, chunks: ChunkSource): Endpoint[] {
+  if (levelId < 1) return [];
+  const out: Endpoint[] = [];
+
+  const down = ladderDownCell(seed, levelId, chunkX, chunkY, chunks);
+  if (down) {
+    out.push({ ...down, kind: 'ladder', toLevelId: levelId + 1, resolveTo: () => ladderUpCell(seed, levelId + 1, chunkX, chunkY, chunks) });
+  }
+
+  const up = ladderUpCell(seed, levelId, chunkX, chunkY, chunks);
+  if (up) {
+    out.push({ ...up, kind: 'ladder', toLevelId: levelId - 1, resolveTo: () => ladderDownCell(seed, levelId - 1, chunkX, chunkY, chunks) });
+  }
+
+  const chute = chuteCell(seed, levelId, chunkX, chunkY, chunks);
+  if (chute) {
+    out.push({
+      x: chute.x,
+      y: chute.y,
+      kind: 'chute',
+      toLevelId: levelId + chute.drop,
+      resolveTo: () => chuteLandingCell(seed, levelId, chunkX, chunkY, chute.drop, chunks)
+    });
+  }
+
+  return out;
+}
+
+// ---------------- Placement ----------------
+
+// Top end of the ladder leading from levelId down to levelId + 1.
+function ladderDownCell(seed: number, levelId: number, chunkX: number, chunkY: number, chunks: ChunkSource): Cell | null {
+  if (!hasLadderDown(seed, levelId, chunkX, chunkY)) return null;
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'ladder_cell_v1'));
+  return pickCell(rng, roomCells(chunks(levelId, chunkX, chunkY)), []);
+}
+
+// Decided from the RNG alone, so the lower end can check for it without generating the upper chunk.
+function hasLadderDown(seed: number, levelId: number, chunkX: number, chunkY: number): boolean {
+  if (levelId < 1) return false;
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'ladder_v1'));
+  return rng.int(0, LADDER_ONE_IN) === 0;
+}
+
+// Bottom end on levelId of the ladder from levelId - 1 (same chunk coordinates).
+function ladderUpCell(seed: number, levelId: number, chunkX: number, chunkY: number, chunks: ChunkSource): Cell | null {
+  if (levelId < 2) return null;
+  if (!hasLadderDown(seed, levelId - 1, chunkX, chunkY)) return null;
+
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'ladder_end_v1'));
+  const avoid = [ladderDownCell(seed, levelId, chunkX, chunkY, chunks)];
+  return pickCell(rng, roomCells(chunks(levelId, chunkX, chunkY)), avoid);
+}
+
+function chuteCell(
+  seed: number,
+  levelId: number,
+  chunkX: number,
+  chunkY: number,
+  chunks: ChunkSource
+): (Cell & { drop: number }) | null {
+  if (levelId < 1) return null;
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'chute_v1'));
+  if (rng.int(0, CHUTE_ONE_IN) !== 0) return null;
+
+  // 1 level is common; 2 and 3 level drops are rarer.
+  const r = rng.float01();
+  const drop = r < 0.6 ? 1 : r < 0.88 ? 2 : 3;
+
+  // Chutes sit in corridors, so they never share a cell with a ladder (ladders are in rooms).
+  const cell = pickCell(rng, corridorCells(chunks(levelId, chunkX, chunkY)), []);
+  return cell ? { ...cell, drop } : null;
+}
+
+function chuteLandingCell(seed: number, levelId: number, chunkX: number, chunkY: number, drop: number, chunks: ChunkSource): Cell {
+  const toLevel = levelId + drop;
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'chute_end_v1'));
+  const avoid = [ladderDownCell(seed, toLevel, chunkX, chunkY, chunks), ladderUpCell(seed, toLevel, chunkX, chunkY, chunks)];
+  return pickCell(rng, roomCells(chunks(toLevel, chunkX, chunkY)), avoid) ?? { x: 0, y: 0 };
+}
+
+function pickCell(rng: XorShift32, cells: Cell[], avoid: Array<Cell | null>): Cell | null {
+  const free = cells.filter((c) => !avoid.some((a) => a && a.x === c.x && a.y === c.y));
+  if (free.length === 0) return null;
+  return free[rng.int(0, free.length)]!;
+}
+
+function roomCells(chunk: ChunkEdges): Cell[] {
+  const out: Cell[] = [];
+  for (let y = 0; y < CHUNK_SIZE; y++) {
+    for (let x = 0; x < CHUNK_SIZE; x++) {
+      if (chunk.room[y * CHUNK_SIZE + x] === 1) out.push({ x, y });
+    }
+  }
+  return out;
+}
+
+// Interior corridor cells with at least two open edges and no lever edge.
+function corridorCells(chunk: ChunkEdges): Cell[] {
+  const out: Cell[] = [];
+  for (let y = 1; y < CHUNK_SIZE - 1; y++) {
+    for (let x = 1; x < CHUNK_SIZE - 1; x++) {
+      if (chunk.room[y * CHUNK_SIZE + x] === 1) continue;
+      let open = 0;
+      let lever = false;
+      for (const d of ['N', 'E', 'S', 'W'] as const) {
+        const e = baseEdgeTypeFromChunk(chunk, x, y, d);
+        if (e === 'open') open++;
+        if (e === 'lever_secret') lever = true;
+      }
+      if (open >= 2 && !lever) out.push({ x, y });
+    }
+  }
+  return out;
+}
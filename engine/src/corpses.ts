@@ -0,0 +1,35 @@
+// engine/src/corpses.ts
+//
+// Corpse chests (GAME_SPEC.md "Death without Egg of Sanctuary"): carried inventory drops into a
+// chest on the death cell, seen by the owner first, then the owner's party, then everyone.
+//
+// Pure: the server stores the windows (corpse_chests) and filters each viewer's cell objects.
+
+export const CORPSE_PRIVATE_MS = 5 * 60_000;
+export const CORPSE_PARTY_MS = 10 * 60_000;
+
+export interface CorpseWindows {
+  privateUntilMs: number;
+  // Equal to privateUntilMs when the owner died solo.
+  partyUntilMs: number;
+  publicAfterMs: number;
+}
+
+// How the viewer relates to the corpse's owner.
+export type CorpseViewer = 'owner' | 'party' | 'other';
+
+export function corpseWindows(createdAtMs: number, inParty: boolean): CorpseWindows {
+  const privateUntilMs = createdAtMs + CORPSE_PRIVATE_MS;
+  const partyUntilMs = inParty ? createdAtMs + CORPSE_PARTY_MS : privateUntilMs;
+  return { privateUntilMs, partyUntilMs, publicAfterMs: partyUntilMs };
+}
+
+/**
+ * Whether the viewer sees (and may loot) the corpse: the owner always, party members once the
+ * private window ends, anyone once it is public.
+ */
+export function corpseVisibleTo(w: CorpseWindows, viewer: CorpseViewer, nowMs: number): boolean {
+  if (viewer === 'owner') return true;
+  if (viewer === 'party') return nowMs >= w.privateUntilMs;
+  return nowMs >= w.publicAfterMs;
+}
@@ -0,0 +1,71 @@
+// engine/src/despawn.ts
+//
+// Monster despawn timers (SIMULATION_RULES.md "Despawn") and the cross-level proximity rule
+// they use ("Active regions": other levels only count through ladder or chute endpoints).
+//
+// Pure: the server sweeps a world's monsters, asks isNearPlayer for each, and persists the
+// timer (entities.despawn_at_ms) that despawnTimer returns.
+
+import type { Connector } from './types.js';
+import { DESPAWN_RADIUS_TILES, withinRadius } from './regions.js';
+
+export const DESPAWN_TIME_SEC = 180;
+export const DESPAWN_TIME_KEY_SEC = 300;
+
+export interface ProximityWorld {
+  connectorsNear(levelId: number, x: number, y: number, radius: number): Connector[];
+}
+
+type Positioned = { levelId: number; x: number; y: number };
+
+/**
+ * True when a player is within `radius` of `at`: level-local straight line, or one connector
+ * hop where the distance to the endpoint plus the distance from the far end fits the radius.
+ * Chute landings are not connectors, so the hop is looked up from both sides.
+ */
+export function isNearPlayer(world: ProximityWorld, at: Positioned, players: Positioned[], radius: number = DESPAWN_RADIUS_TILES): boolean {
+  if (players.some((p) => p.levelId === at.levelId && withinRadius(p, at, radius))) return true;
+
+  const others = players.filter((p) => p.levelId !== at.levelId);
+  if (others.length === 0) return false;
+
+  const viaHop = (from: Positioned, to: Positioned): boolean =>
+    world.connectorsNear(from.levelId, from.x, from.y, radius).some((c) => {
+      if (c.toLevelId !== to.levelId) return false;
+      const left = radius - Math.hypot(c.x - from.x, c.y - from.y);
+      return left >= 0 && withinRadius({ x: c.toX, y: c.toY }, to, left);
+    });
+
+  return others.some((p) => viaHop(at, p) || viaHop(p, at));
+}
+
+/**
+ * Next despawn_at_ms for a monster: a player nearby cancels the timer, otherwise it starts
+ * (300 s for key-monsters, 180 s for the rest) or keeps running. `expired` once it is due.
+ */
+export function despawnTimer(
+  despawnAtMs: number | null,
+  near: boolean,
+  keyMonster: boolean,
+  nowMs: number
+): { despawnAtMs: number | null; expired: boolean } {
+  if (near) return { despawnAtMs: null, expired: false };
+  if (despawnAtMs === null) {
+    return { despawnAtMs: nowMs + (keyMonster ? DESPAWN_TIME_KEY_SEC : DESPAWN_TIME_SEC) * 1000, expired: false };
+  }
+  return { despawnAtMs, expired: nowMs >= despawnAtMs };
+}
+
+/**
+ * Offline catch-up (SIMULATION_RULES.md "Soft pause and catch-up"): nobody was connected while
+ * the world was paused, so a timer that was not yet running started at the pause.
+ */
+export function catchUpDespawnTimer(
+  despawnAtMs: number | null,
+  keyMonster: boolean,
+  pausedAtMs: number,
+  nowMs: number
+): { despawnAtMs: number; expired: boolean } {
+  const at = despawnTimer(despawnAtMs, false, keyMonster, pausedAtMs).despawnAtMs!;
+  return { despawnAtMs: at, expired: nowMs >= at };
+}
@@ -0,0 +1,41 @@
+// engine/src/detection.ts
+//
+// Detection of secrets (GAME_SPEC.md "Detection", "Secret pockets", "Trapdoors / Chutes").
+//
+// - Lever edges read as walls for every query purpose until the viewer has detected them.
+// - Undetected chutes are hidden and trigger accidental falls; detected ones are safe and jumpable.
+// - Detection state is per character and party-shared; the provider decides whose state counts.
+
+import type { Dir } from './types.js';
+
+// Square radius (in cells) searched by one detect action: the player's cell and its neighbours.
+export const DETECT_RANGE = 1;
+
+export type SecretRef =
+  | { kind: 'lever'; levelId: number; x: number; y: number; dir: Dir } // canonical E/S side
+  | { kind: 'chute'; levelId: number; x: number; y: number };
+
+export interface DetectionProvider {
+  isDetected(ref: SecretRef): boolean;
+  markDetected(refs: SecretRef[], nowMs: number): void;
+}
+
+/**
+ * Lever edges are two-way: both sides map to the same ref (E/S of the west/north cell).
+ */
+export function leverRef(levelId: number, x: number, y: number, dir: Dir): SecretRef {
+  if (dir === 'W') return { kind: 'lever', levelId, x: x - 1, y, dir: 'E' };
+  if (dir === 'N') return { kind: 'lever', levelId, x, y: y - 1, dir: 'S' };
+  return { kind: 'lever', levelId, x, y, dir };
+}
+
+export function secretKey(ref: SecretRef): string {
+  return ref.kind === 'lever' ? `lever:${ref.levelId}:${ref.x}:${ref.y}:${ref.dir}` : `chute:${ref.levelId}:${ref.x}:${ref.y}`;
+}
+
+/**
+ * Chance for one detect roll to find one secret: 25% base, +5% per skill point, capped at 95%.
+ */
+export function detectChance(skill: number): number {
+  return Math.max(0, Math.min(0.95, 0.25 + 0.05 * Math.max(0, skill)));
+}
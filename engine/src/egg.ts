@@ -0,0 +1,36 @@
+// engine/src/egg.ts
+//
+// Egg of Sanctuary (SIMULATION_RULES.md "Egg of Sanctuary"): manual-use restrictions and the
+// channel length. Pure: the server owns has_egg, the channel timer and the teleport to the hub.
+
+export const EGG_CHANNEL_MIN_MS = 3000;
+export const EGG_CHANNEL_MAX_MS = 5000;
+
+// Manual use is refused this soon after the last monster hit.
+export const EGG_ATTACKED_LOCKOUT_MS = 10_000;
+
+export interface EggUser {
+  hasEgg: boolean;
+  inCombat: boolean;
+  lastAttackedAtMs: number | null;
+  stunned: boolean;
+  immobilized: boolean;
+}
+
+export type EggRefusal = 'no_egg' | 'in_combat' | 'recently_attacked' | 'stunned' | 'immobilized';
+
+/**
+ * Why manual use is refused right now, or null when the channel may start.
+ */
+export function eggUseRefusal(user: EggUser, nowMs: number): EggRefusal | null {
+  if (!user.hasEgg) return 'no_egg';
+  if (user.inCombat) return 'in_combat';
+  if (user.lastAttackedAtMs !== null && nowMs - user.lastAttackedAtMs < EGG_ATTACKED_LOCKOUT_MS) return 'recently_attacked';
+  if (user.stunned) return 'stunned';
+  if (user.immobilized) return 'immobilized';
+  return null;
+}
+
+export function eggChannelMs(rng: () => number): number {
+  return EGG_CHANNEL_MIN_MS + Math.floor(rng() * (EGG_CHANNEL_MAX_MS - EGG_CHANNEL_MIN_MS + 1));
+}
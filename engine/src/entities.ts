@@ -0,0 +1,223 @@
+// engine/src/entities.ts
+//
+// Dungeon entities (PERSISTENCE_SCHEMA.md "Entities") and the per-tick monster AI
+// (SIMULATION_RULES.md "Monsters and NPCs").
+//
+// Pure: the server loads entities inside active regions, calls tickEntity once per tick with
+// an injected RNG, and persists whatever comes back changed.
+
+import type { Connector, Dir } from './types.js';
+import type { EdgeQueryPurpose } from './world.js';
+import { step } from './world.js';
+import { monsterDef } from './monsters.js';
+import type { MonsterDef } from './monsters.js';
+import { withinRadius } from './regions.js';
+
+export const TICK_RATE_HZ = 4;
+export const TICK_MS = 1000 / TICK_RATE_HZ;
+
+// Non-epic entities never end up further than this from their spawn level.
+export const MAX_LEVEL_DRIFT = 2;
+
+// Chance per roaming step to take a ladder/chute when standing on one.
+const CONNECTOR_TRAVERSE_CHANCE = 0.1;
+
+// Chance per ready tick that a roaming monster stays put.
+const IDLE_CHANCE = 0.5;
+
+export type EntityType = 'monster' | 'npc' | 'trader';
+
+// Stored in entities.state_json.
+export interface EntityAiState {
+  homeX: number;
+  homeY: number;
+  moveReadyAtMs: number;
+  attackReadyAtMs: number;
+  // Character being chased (aggressive pick-up, or provoked neutral/passive).
+  targetId: string | null;
+}
+
+export interface Entity {
+  entityId: string;
+  type: EntityType;
+  defId: string;
+  spawnLevelId: number;
+  levelId: number;
+  x: number;
+  y: number;
+  hp: number;
+  ai: EntityAiState;
+  despawnAtMs: number | null;
+}
+
+export interface EntityWorld {
+  // moverEntityId lets a key-monster through its own locked doors (SPEC_LOCKS.md D4).
+  canTraverseEdge(levelId: number, x: number, y: number, dir: Dir, purpose?: EdgeQueryPurpose, moverEntityId?: string | null): boolean;
+  connectorAt(levelId: number, x: number, y: number): Connector | null;
+}
+
+export interface TickContext {
+  world: EntityWorld;
+  nowMs: number;
+  // Players in the active region (level-local positions).
+  players: Array<{ id: string; levelId: number; x: number; y: number }>;
+  // Cells an entity may not step into (other entities, players).
+  isOccupied: (levelId: number, x: number, y: number) => boolean;
+  rng: () => number;
+}
+
+const DIRS: Dir[] = ['N', 'E', 'S', 'W'];
+
+export function newMonster(entityId: string, def: MonsterDef, at: { levelId: number; x: number; y: number }): Entity {
+  return {
+    entityId,
+    type: 'monster',
+    defId: def.defId,
+    spawnLevelId: at.levelId,
+    levelId: at.levelId,
+    x: at.x,
+    y: at.y,
+    hp: def.maxHp,
+    ai: { homeX: at.x, homeY: at.y, moveReadyAtMs: 0, attackReadyAtMs: 0, targetId: null },
+    despawnAtMs: null
+  };
+}
+
+/**
+ * One AI tick. Returns the changed entity, or null when nothing changed (not ready, idle,
+ * boxed in, or already next to its target).
+ */
+export function tickEntity(entity: Entity, ctx: TickContext): Entity | null {
+  if (entity.type !== 'monster') return null;
+  const def = monsterDef(entity.defId);
+  if (!def || ctx.nowMs < entity.ai.moveReadyAtMs) return null;
+
+  const target = pickTarget(entity, def, ctx);
+  const ai: EntityAiState = { ...entity.ai, moveReadyAtMs: ctx.nowMs + def.moveIntervalMs, targetId: target?.id ?? null };
+
+  let moved: Entity | null = null;
+  if (target) {
+    // Already adjacent: hold position (attacks are resolved by combat.ts monsterAttack).
+    if (Math.abs(target.x - entity.x) + Math.abs(target.y - entity.y) > 1) moved = stepToward(entity, target, ctx);
+  } else if (ctx.rng() >= IDLE_CHANCE) {
+    const climbed = traverseConnector(entity, ctx);
+    if (climbed) return { ...climbed, ai: { ...ai, homeX: climbed.x, homeY: climbed.y } };
+    moved = roam(entity, def, ctx);
+  }
+
+  if (moved) return { ...moved, ai };
+  return ai.targetId !== entity.ai.targetId ? { ...entity, ai } : null;
+}
+
+// Keeps the current target while it stays in range and the monster is within its leash;
+// aggressive monsters otherwise pick up the nearest player in aggro range.
+function pickTarget(entity: Entity, def: MonsterDef, ctx: TickContext): TickContext['players'][number] | null {
+  const home = { x: entity.ai.homeX, y: entity.ai.homeY };
+  if (!withinRadius(entity, home, def.homeRadius * 2)) return null;
+
+  const sameLevel = ctx.players.filter((p) => p.levelId === entity.levelId);
+  const chaseRange = Math.max(def.aggroRange, 1) * 2;
+
+  if (entity.ai.targetId) {
+    const cur = sameLevel.find((p) => p.id === entity.ai.targetId);
+    if (cur && withinRadius(entity, cur, chaseRange)) return cur;
+  }
+
+  if (def.temperament !== 'aggressive') return null;
+
+  let best: TickContext['players'][number] | null = null;
+  let bestD = Infinity;
+  for (const p of sameLevel) {
+    const d = (p.x - entity.x) ** 2 + (p.y - entity.y) ** 2;
+    if (d <= def.aggroRange * def.aggroRange && d < bestD) {
+      best = p;
+      bestD = d;
+    }
+  }
+  return best;
+}
+
+// Greedy step that shortens the Manhattan distance; no pathfinding, so walls can stall a chase.
+function stepToward(entity: Entity, to: { x: number; y: number }, ctx: TickContext): Entity | null {
+  const dx = to.x - entity.x;
+  const dy = to.y - entity.y;
+  const dirs: Dir[] = [];
+  const h: Dir = dx > 0 ? 'E' : 'W';
+  const v: Dir = dy > 0 ? 'S' : 'N';
+  if (Math.abs(dx) >= Math.abs(dy)) {
+    if (dx !== 0) dirs.push(h);
+    if (dy !== 0) dirs.push(v);
+  } else {
+    if (dy !== 0) dirs.push(v);
+    if (dx !== 0) dirs.push(h);
+  }
+
+  for (const dir of dirs) {
+    const moved = tryStep(entity, dir, ctx);
+    if (moved) return moved;
+  }
+  return null;
+}
+
+function roam(entity: Entity, def: MonsterDef, ctx: TickContext): Entity | null {
+  const home = { x: entity.ai.homeX, y: entity.ai.homeY };
+  if (!withinRadius(entity, home, def.homeRadius)) return stepToward(entity, home, ctx);
+
+  const start = Math.floor(ctx.rng() * DIRS.length);
+  for (let i = 0; i < DIRS.length; i++) {
+    const dir = DIRS[(start + i) % DIRS.length]!;
+    const { nx, ny } = step(entity.x, entity.y, dir);
+    if (!withinRadius({ x: nx, y: ny }, home, def.homeRadius)) continue;
+    const moved = tryStep(entity, dir, ctx);
+    if (moved) return moved;
+  }
+  return null;
+}
+
+// Ladders both ways, chutes down only (their landing is not a connector). Level drift is capped.
+function traverseConnector(entity: Entity, ctx: TickContext): Entity | null {
+  const c = ctx.world.connectorAt(entity.levelId, entity.x, entity.y);
+  if (!c) return null;
+  if (Math.abs(c.toLevelId - entity.spawnLevelId) > MAX_LEVEL_DRIFT) return null;
+  if (ctx.rng() >= CONNECTOR_TRAVERSE_CHANCE) return null;
+  if (ctx.isOccupied(c.toLevelId, c.toX, c.toY)) return null;
+  return { ...entity, levelId: c.toLevelId, x: c.toX, y: c.toY };
+}
+
+// Read-only edge queries: monsters never seed hubs or materialize frontier doors.
+function tryStep(entity: Entity, dir: Dir, ctx: TickContext): Entity | null {
+  if (!ctx.world.canTraverseEdge(entity.levelId, entity.x, entity.y, dir, 'minimap', entity.entityId)) return null;
+  const { nx, ny } = step(entity.x, entity.y, dir);
+  if (ctx.isOccupied(entity.levelId, nx, ny)) return null;
+  return { ...entity, x: nx, y: ny };
+}
+
+// ---------------- Persistence (entities.state_json) ----------------
+
+export function parseEntityAiState(json: string | null | undefined, fallback: { x: number; y: number }): EntityAiState {
+  const base: EntityAiState = { homeX: fallback.x, homeY: fallback.y, moveReadyAtMs: 0, attackReadyAtMs: 0, targetId: null };
+  if (!json) return base;
+  try {
+    const j = JSON.parse(json);
+    if (!j || typeof j !== 'object') return base;
+    return {
+      homeX: Number.isInteger(j.home_x) ? j.home_x : base.homeX,
+      homeY: Number.isInteger(j.home_y) ? j.home_y : base.homeY,
+      moveReadyAtMs: Number.isFinite(j.move_ready_at_ms) ? j.move_ready_at_ms : 0,
+      attackReadyAtMs: Number.isFinite(j.attack_ready_at_ms) ? j.attack_ready_at_ms : 0,
+      targetId: typeof j.target_id === 'string' ? j.target_id : null
+    };
+  } catch {
+    return base;
+  }
+}
+
+export function serializeEntityAiState(ai: EntityAiState): string {
+  return JSON.stringify({
+    home_x: ai.homeX,
+    home_y: ai.homeY,
+    move_ready_at_ms: ai.moveReadyAtMs,
+    attack_ready_at_ms: ai.attackReadyAtMs,
+    target_id: ai.targetId
+  });
+}
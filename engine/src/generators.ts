@@ -0,0 +1,62 @@
+// engine/src/generators.ts
+//
+// Generator version registry: worlds.generator_version -> concrete generator implementation.
+//
+// A registered version is frozen. Its output must never change (I1), or existing worlds would
+// silently drift under their stored overlays (I6). New algorithms ship as a new version;
+// engine/test/fixtures/generator-golden.json pins every version's output hashes.
+
+import type { ChunkEdges } from './types.js';
+import { generateChunkBsp } from './maze.js';
+import { DEPTH_PROFILES_V1, LEGACY_PROFILE, profileFromTable } from './profiles.js';
+import type { GenerationProfile } from './profiles.js';
+
+export interface GeneratorSpec {
+  version: string;
+
+  // Base layer (deterministic per seed/level/chunk).
+  generateChunk(seed: number, levelId: number, chunkX: number, chunkY: number): ChunkEdges;
+
+  // Depth-scaled knobs for this version (also read by the server-side expander).
+  profile(levelId: number): GenerationProfile;
+
+  // RNG labels used by the server-side overlay expander (hub doors + frontier expansion).
+  hubDoorsLabel: string;
+  expandLabel: string;
+}
+
+const DOORS_V1: GeneratorSpec = {
+  version: 'doors_v1',
+  generateChunk: (seed, levelId, chunkX, chunkY) => generateChunkBsp(seed, levelId, chunkX, chunkY, { label: 'bsp_v4' }),
+  profile: () => LEGACY_PROFILE,
+  hubDoorsLabel: 'hub_doors_v1',
+  expandLabel: 'expand_v1'
+};
+
+// Same BSP stream as doors_v1; shallow bands use LEGACY_PROFILE so levels 1-2 are unchanged.
+const DEPTH_V1: GeneratorSpec = {
+  version: 'depth_v1',
+  generateChunk: (seed, levelId, chunkX, chunkY) =>
+    generateChunkBsp(seed, levelId, chunkX, chunkY, { label: 'bsp_v4', profile: profileFromTable(DEPTH_PROFILES_V1, levelId) }),
+  profile: (levelId) => profileFromTable(DEPTH_PROFILES_V1, levelId),
+  hubDoorsLabel: 'hub_doors_v1',
+  expandLabel: 'expand_v1'
+};
+
+const REGISTRY = new Map<string, GeneratorSpec>([
+  [DOORS_V1.version, DOORS_V1],
+  [DEPTH_V1.version, DEPTH_V1]
+]);
+
+// Version stamped on newly created worlds.
+export const CURRENT_GENERATOR_VERSION = 'depth_v1';
+
+export function getGenerator(version: string = CURRENT_GENERATOR_VERSION): GeneratorSpec {
+  const spec = REGISTRY.get(version);
+  if (!spec) throw new Error(`unknown generator_version: ${version}`);
+  return spec;
+}
+
+export function listGeneratorVersions(): string[] {
+  return Array.from(REGISTRY.keys());
+}
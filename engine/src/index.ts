@@ -1,4 +1,23 @@
 export * from './types.js';
 export * from './world.js';
 export * from './maze.js';
+export * from './generators.js';
+export * from './profiles.js';
+export * from './connectors.js';
+export * from './town.js';
+export * from './ascii.js';
+export * from './pathfind.js';
+export * from './visibility.js';
+export * from './detection.js';
+export * from './locks.js';
+export * from './regions.js';
+export * from './loot.js';
+export * from './monsters.js';
+export * from './entities.js';
+export * from './population.js';
+export * from './despawn.js';
+export * from './combat.js';
+export * from './egg.js';
+export * from './corpses.js';
 export * from './hash.js';
+export * from './invariants.js';
@@ -0,0 +1,166 @@
+// engine/src/invariants.ts
+//
+// Maze invariant checker (ARCHITECTURE.md I3/I4) over a rectangular window.
+//
+// Works on any edge source: generated chunks (checkChunkWindow) or a live world
+// (server CLI wraps overlay rows / WorldEngine in an EdgeSource).
+
+import type { Dir, EdgeType } from './types.js';
+import { CHUNK_SIZE, ChunkCache } from './world.js';
+
+export interface EdgeSource {
+  edgeType(x: number, y: number, dir: Dir): EdgeType;
+  // Optional: enables the "doors only on room boundaries" rule.
+  isRoom?(x: number, y: number): boolean;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export type InvariantViolation =
+  // Component (outside any secret pocket) that cannot be reached from the main network.
+  | { kind: 'unreachable'; x: number; y: number; cells: number }
+  // Sealed region whose lever exits are not exactly one.
+  | { kind: 'pocket_exits'; x: number; y: number; cells: number; exits: number }
+  // Cell A's E/S edge disagrees with cell B's W/N edge.
+  | { kind: 'asymmetric_edge'; x: number; y: number; dir: 'E' | 'S'; a: EdgeType; b: EdgeType }
+  | { kind: 'door_off_room_boundary'; x: number; y: number; dir: 'E' | 'S'; edgeType: EdgeType };
+
+export interface InvariantReport {
+  rect: Rect;
+  carvedCells: number;
+  pockets: number;
+  violations: InvariantViolation[];
+}
+
+const DIRS: Array<{ dir: Dir; dx: number; dy: number }> = [
+  { dir: 'N', dx: 0, dy: -1 },
+  { dir: 'E', dx: 1, dy: 0 },
+  { dir: 'S', dx: 0, dy: 1 },
+  { dir: 'W', dx: -1, dy: 0 }
+];
+
+function isDoor(e: EdgeType): boolean {
+  return e === 'door_locked' || e === 'door_unlocked';
+}
+
+/**
+ * Checks I3 (connectivity, secret pocket exits) and I4 (edge symmetry, door placement).
+ *
+ * Components that leave the window through a passable edge are treated as reachable,
+ * since their connection may lie outside the window.
+ */
+export function checkInvariants(src: EdgeSource, rect: Rect, opts: { origin?: { x: number; y: number } } = {}): InvariantReport {
+  const violations: InvariantViolation[] = [];
+  const inRect = (x: number, y: number) => x >= rect.x && y >= rect.y && x < rect.x + rect.w && y < rect.y + rect.h;
+  const key = (x: number, y: number) => `${x},${y}`;
+
+  // ---- I4: symmetry + doors on room boundaries ----
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      for (const d of ['E', 'S'] as const) {
+        const nx = d === 'E' ? x + 1 : x;
+        const ny = d === 'S' ? y + 1 : y;
+        const a = src.edgeType(x, y, d);
+        const b = src.edgeType(nx, ny, d === 'E' ? 'W' : 'N');
+        if (a !== b) violations.push({ kind: 'asymmetric_edge', x, y, dir: d, a, b });
+
+        if (src.isRoom && isDoor(a) && src.isRoom(x, y) === src.isRoom(nx, ny)) {
+          violations.push({ kind: 'door_off_room_boundary', x, y, dir: d, edgeType: a });
+        }
+      }
+    }
+  }
+
+  // ---- I3: components over non-lever passable edges ----
+  const comp = new Map<string, number>();
+  const comps: Array<{ x: number; y: number; cells: number; levers: number; leaves: boolean }> = [];
+
+  for (let y = rect.y; y < rect.y + rect.h; y++) {
+    for (let x = rect.x; x < rect.x + rect.w; x++) {
+      if (comp.has(key(x, y))) continue;
+      if (!DIRS.some((d) => src.edgeType(x, y, d.dir) !== 'wall')) continue;
+
+      const id = comps.length;
+      const info = { x, y, cells: 0, levers: 0, leaves: false };
+      comps.push(info);
+
+      comp.set(key(x, y), id);
+      const queue: Array<[number, number]> = [[x, y]];
+      while (queue.length) {
+        const [cx, cy] = queue.pop()!;
+        info.cells++;
+
+        for (const d of DIRS) {
+          const e = src.edgeType(cx, cy, d.dir);
+          if (e === 'wall') continue;
+          if (e === 'lever_secret') {
+            info.levers++;
+            continue;
+          }
+
+          const nx = cx + d.dx;
+          const ny = cy + d.dy;
+          if (!inRect(nx, ny)) {
+            info.leaves = true;
+            continue;
+          }
+          if (comp.has(key(nx, ny))) continue;
+          comp.set(key(nx, ny), id);
+          queue.push([nx, ny]);
+        }
+      }
+    }
+  }
+
+  let main = -1;
+  if (opts.origin) main = comp.get(key(opts.origin.x, opts.origin.y)) ?? -1;
+  if (main < 0) {
+    for (let i = 0; i < comps.length; i++) {
+      if (main < 0 || comps[i]!.cells > comps[main]!.cells) main = i;
+    }
+  }
+
+  let pockets = 0;
+  let carvedCells = 0;
+  for (let i = 0; i < comps.length; i++) {
+    const c = comps[i]!;
+    carvedCells += c.cells;
+    if (i === main || c.leaves) continue;
+
+    if (c.levers === 1) {
+      pockets++;
+    } else if (c.levers === 0) {
+      violations.push({ kind: 'unreachable', x: c.x, y: c.y, cells: c.cells });
+    } else {
+      violations.push({ kind: 'pocket_exits', x: c.x, y: c.y, cells: c.cells, exits: c.levers });
+    }
+  }
+
+  return { rect, carvedCells, pockets, violations };
+}
+
+/**
+ * Checks a window of generated chunks (base layer only, no overlays).
+ */
+export function checkChunkWindow(
+  seed: number,
+  levelId: number,
+  chunkX: number,
+  chunkY: number,
+  chunksW: number,
+  chunksH: number,
+  generatorVersion?: string
+): InvariantReport {
+  const cache = new ChunkCache(seed, Math.max(4, (chunksW + 1) * (chunksH + 1)), generatorVersion);
+  const src: EdgeSource = {
+    edgeType: (x, y, dir) => cache.edgeType(levelId, x, y, dir),
+    isRoom: (x, y) => cache.isRoom(levelId, x, y)
+  };
+  const rect: Rect = { x: chunkX * CHUNK_SIZE, y: chunkY * CHUNK_SIZE, w: chunksW * CHUNK_SIZE, h: chunksH * CHUNK_SIZE };
+  return checkInvariants(src, rect);
+}
@@ -0,0 +1,165 @@
+// engine/src/locks.ts
+//
+// Lock state machines (SPEC_LOCKS.md): doors D1-D4, chests C1-C4, plus admin override.
+//
+// Pure: callers load the current state, apply one action, persist the result and emit
+// `door_lock_state_changed` / `chest_lock_state_changed` with the returned reason.
+// Lock state is global (V4).
+
+import type { EdgeType } from './types.js';
+
+export interface DoorLockState {
+  locked: boolean;
+  lockDifficulty: number;
+  keyMonsterEntityId: string | null;
+  defaultStateOnReset: 'unlocked';
+}
+
+export type DoorLockReason = 'lockpicked' | 'key_monster_killed' | 'key_monster_despawned' | 'admin_override';
+
+export type DoorLockAction =
+  | { kind: 'lockpick'; skill: number } // D1
+  | { kind: 'key_monster_killed'; entityId: string } // D2
+  | { kind: 'key_monster_despawned'; entityId: string } // D3
+  | { kind: 'admin'; locked?: boolean; lockDifficulty?: number; keyMonsterEntityId?: string | null };
+
+export type DoorLockResult =
+  | { ok: true; state: DoorLockState; changed: boolean; reason: DoorLockReason }
+  | { ok: false; reason: 'not_locked' | 'skill_too_low' | 'not_key_monster' };
+
+export function lockedDoor(lockDifficulty: number, keyMonsterEntityId: string | null = null): DoorLockState {
+  return { locked: true, lockDifficulty, keyMonsterEntityId, defaultStateOnReset: 'unlocked' };
+}
+
+export function applyDoorLockAction(state: DoorLockState, action: DoorLockAction): DoorLockResult {
+  if (action.kind === 'admin') {
+    const next: DoorLockState = {
+      ...state,
+      locked: action.locked ?? state.locked,
+      lockDifficulty: action.lockDifficulty ?? state.lockDifficulty,
+      keyMonsterEntityId: action.keyMonsterEntityId !== undefined ? action.keyMonsterEntityId : state.keyMonsterEntityId
+    };
+    return { ok: true, state: next, changed: !sameDoorLock(state, next), reason: 'admin_override' };
+  }
+
+  if (!state.locked) return { ok: false, reason: 'not_locked' };
+
+  if (action.kind === 'lockpick') {
+    if (action.skill < state.lockDifficulty) return { ok: false, reason: 'skill_too_low' };
+    return { ok: true, state: { ...state, locked: false }, changed: true, reason: 'lockpicked' };
+  }
+
+  if (state.keyMonsterEntityId === null || state.keyMonsterEntityId !== action.entityId) {
+    return { ok: false, reason: 'not_key_monster' };
+  }
+
+  if (action.kind === 'key_monster_killed') {
+    return { ok: true, state: { ...state, locked: false }, changed: true, reason: 'key_monster_killed' };
+  }
+
+  // D3: reset to default_state_on_reset, which is always 'unlocked' for doors.
+  return { ok: true, state: { ...state, locked: false }, changed: true, reason: 'key_monster_despawned' };
+}
+
+/**
+ * D4: players pass only unlocked doors; the door's key-monster may pass while locked.
+ */
+export function canTraverseDoor(state: DoorLockState, moverEntityId: string | null = null): boolean {
+  if (!state.locked) return true;
+  return moverEntityId !== null && moverEntityId === state.keyMonsterEntityId;
+}
+
+export function doorEdgeType(state: DoorLockState): EdgeType {
+  return state.locked ? 'door_locked' : 'door_unlocked';
+}
+
+function sameDoorLock(a: DoorLockState, b: DoorLockState): boolean {
+  return a.locked === b.locked && a.lockDifficulty === b.lockDifficulty && a.keyMonsterEntityId === b.keyMonsterEntityId;
+}
+
+// ---------------- Persistence (edge_overrides.lock_state_json) ----------------
+
+/**
+ * Parses the stored snake_case form; null when missing or malformed.
+ */
+export function parseDoorLockState(json: string | null | undefined): DoorLockState | null {
+  if (!json) return null;
+  try {
+    const j = JSON.parse(json);
+    if (!j || typeof j !== 'object' || typeof j.locked !== 'boolean') return null;
+    return {
+      locked: j.locked,
+      lockDifficulty: Number.isInteger(j.lock_difficulty) ? j.lock_difficulty : 1,
+      keyMonsterEntityId: typeof j.key_monster_entity_id === 'string' ? j.key_monster_entity_id : null,
+      defaultStateOnReset: 'unlocked'
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function serializeDoorLockState(state: DoorLockState): string {
+  return JSON.stringify({
+    locked: state.locked,
+    lock_difficulty: state.lockDifficulty,
+    key_monster_entity_id: state.keyMonsterEntityId,
+    default_state_on_reset: state.defaultStateOnReset
+  });
+}
+
+// ---------------- Chest locks (SPEC_LOCKS.md "Chest locks", C1-C4) ----------------
+
+export interface ChestLockState {
+  locked: boolean;
+  lockDifficulty: number;
+  keyMonsterEntityId: string | null;
+}
+
+export type ChestLockReason = 'lockpicked' | 'key_monster_killed' | 'admin_override';
+
+// Same intents as doors (LOCKPICK, KILL, DESPAWN, admin edit).
+export type ChestLockAction = DoorLockAction;
+
+export type ChestLockResult =
+  | { ok: true; state: ChestLockState; changed: boolean; reason: ChestLockReason }
+  | { ok: false; reason: 'not_locked' | 'skill_too_low' | 'not_key_monster' | 'no_effect' };
+
+export function applyChestLockAction(state: ChestLockState, action: ChestLockAction): ChestLockResult {
+  if (action.kind === 'admin') {
+    const next: ChestLockState = {
+      locked: action.locked ?? state.locked,
+      lockDifficulty: action.lockDifficulty ?? state.lockDifficulty,
+      keyMonsterEntityId: action.keyMonsterEntityId !== undefined ? action.keyMonsterEntityId : state.keyMonsterEntityId
+    };
+    return { ok: true, state: next, changed: !sameChestLock(state, next), reason: 'admin_override' };
+  }
+
+  if (!state.locked) return { ok: false, reason: 'not_locked' };
+
+  // C1: chests can always be lockpicked given enough skill.
+  if (action.kind === 'lockpick') {
+    if (action.skill < state.lockDifficulty) return { ok: false, reason: 'skill_too_low' };
+    return { ok: true, state: { ...state, locked: false }, changed: true, reason: 'lockpicked' };
+  }
+
+  if (state.keyMonsterEntityId === null || state.keyMonsterEntityId !== action.entityId) {
+    return { ok: false, reason: 'not_key_monster' };
+  }
+
+  // C3: unlike doors, a despawning key-monster leaves the chest locked.
+  if (action.kind === 'key_monster_despawned') return { ok: false, reason: 'no_effect' };
+
+  // C2
+  return { ok: true, state: { ...state, locked: false }, changed: true, reason: 'key_monster_killed' };
+}
+
+/**
+ * C4: OPEN is denied while locked.
+ */
+export function canOpenChest(state: ChestLockState): boolean {
+  return !state.locked;
+}
+
+function sameChestLock(a: ChestLockState, b: ChestLockState): boolean {
+  return a.locked === b.locked && a.lockDifficulty === b.lockDifficulty && a.keyMonsterEntityId === b.keyMonsterEntityId;
+}
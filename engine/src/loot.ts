@@ -0,0 +1,99 @@
+// engine/src/loot.ts
+//
+// Loot chests (SIMULATION_RULES.md "Loot chests"): per-chunk quotas, scheduled spawn checks,
+// depth-scaled contents, traps and locks.
+//
+// Spawn rolls are deterministic per (seed, level, chunk, check index) so a replayed check
+// produces the same chests; the server only decides when a check runs.
+
+import { XorShift32, hashSeed } from './prng.js';
+
+export const CHEST_SPAWN_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+export const CHEST_OPEN_TTL_MS = 30 * 60 * 1000;
+
+export type LootItem = { itemId: string; qty: number };
+
+export type ChestTrapType = 'needle' | 'gas' | 'blast';
+
+export interface ChestSpawn {
+  x: number; // absolute
+  y: number;
+  depthTier: number;
+  trapped: boolean;
+  trapType: ChestTrapType | null;
+  locked: boolean;
+  lockDifficulty: number;
+  items: LootItem[];
+}
+
+// Extra items by tier (gold is always rolled on top).
+const TIER_ITEMS: string[][] = [
+  ['potion_minor', 'torch'],
+  ['potion_minor', 'scroll_detect', 'torch'],
+  ['potion', 'scroll_detect', 'gem_small'],
+  ['potion', 'gem', 'scroll_detect'],
+  ['potion_major', 'gem_large', 'gem']
+];
+
+const TRAP_TYPES: ChestTrapType[] = ['needle', 'gas', 'blast'];
+
+/**
+ * 0 for levels 1-5, 1 for 6-10, ... capped at 4. The town has no chests.
+ */
+export function depthTier(levelId: number): number {
+  return Math.max(0, Math.min(TIER_ITEMS.length - 1, Math.floor((levelId - 1) / 5)));
+}
+
+export function chestQuota(levelId: number): number {
+  if (levelId < 1) return 0;
+  return 1 + Math.floor(depthTier(levelId) / 2);
+}
+
+export function chestTrapDamage(trapType: ChestTrapType, depthTier: number): number {
+  const base = trapType === 'needle' ? 2 : trapType === 'gas' ? 3 : 5;
+  return base * (depthTier + 1);
+}
+
+/**
+ * One scheduled check for a chunk. `free` is quota minus active chests; candidates are valid
+ * absolute cells (rooms without connectors or existing chests).
+ */
+export function planChestSpawns(
+  seed: number,
+  levelId: number,
+  chunkX: number,
+  chunkY: number,
+  checkIndex: number,
+  free: number,
+  candidates: Array<{ x: number; y: number }>
+): ChestSpawn[] {
+  if (free <= 0 || candidates.length === 0) return [];
+
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, `chest_check_v1:${checkIndex}`));
+  const tier = depthTier(levelId);
+
+  // Usually one chest per check, sometimes two (still capped by the quota).
+  const count = Math.min(free, rng.float01() < 0.25 ? 2 : 1);
+  const cells = rng.shuffleInPlace(candidates.slice()).slice(0, count);
+
+  return cells.map((c) => {
+    const trapped = rng.float01() < 0.1 + 0.05 * tier;
+    const trapType = trapped ? TRAP_TYPES[rng.int(0, TRAP_TYPES.length)]! : null;
+    const locked = rng.float01() < 0.15 + 0.1 * tier;
+    return { x: c.x, y: c.y, depthTier: tier, trapped, trapType, locked, lockDifficulty: 1 + 2 * tier, items: rollLoot(rng, tier) };
+  });
+}
+
+function rollLoot(rng: XorShift32, tier: number): LootItem[] {
+  const items: LootItem[] = [{ itemId: 'gold', qty: rng.int(5, 21) * (tier + 1) }];
+
+  const table = TIER_ITEMS[tier]!;
+  const extra = rng.int(1, 3);
+  for (let i = 0; i < extra; i++) {
+    const itemId = table[rng.int(0, table.length)]!;
+    const prev = items.find((it) => it.itemId === itemId);
+    if (prev) prev.qty++;
+    else items.push({ itemId, qty: 1 });
+  }
+  return items;
+}
@@ -7,10 +7,17 @@
 // 4) Convert room<->corridor boundaries into DOORS (and ONLY those boundaries)
 // 5) Sanitize: any accidental doors not on a room boundary are converted back to OPEN
 //
+// Occasionally a sealed secret pocket is added whose only exit is a lever edge (I3).
+//
+// Chunk borders are stitched with deterministic seam openings (see seamOpenings), each
+// carved inward to the nearest room so corridor networks join across chunks.
+//
 // Storage remains edge-based (east/south arrays) for determinism & compatibility.
 
 import { XorShift32, hashSeed } from './prng.js';
 import type { ChunkEdges, Dir } from './types.js';
+import { LEGACY_PROFILE } from './profiles.js';
+import type { GenerationProfile } from './profiles.js';
 
 const CHUNK_SIZE = 64;
 
@@ -18,6 +25,16 @@ const CHUNK_SIZE = 64;
 const EDGE_WALL = 0;
 const EDGE_OPEN = 1;
 const EDGE_DOOR = 2;
+const EDGE_LEVER = 3;
+const EDGE_DOOR_LOCKED = 4;
+
+// Openings per shared chunk border.
+const SEAM_MIN_OPENINGS = 1;
+const SEAM_MAX_OPENINGS = 3;
+
+// Secret pocket size (frequency comes from the profile).
+const POCKET_MIN_SIZE = 2;
+const POCKET_MAX_SIZE = 4;
 
 type Rect = { x: number; y: number; w: number; h: number };
 type Room = Rect & { cx: number; cy: number };
@@ -35,8 +52,16 @@ export function generateChunkMaze(seed: number, levelId: number, chunkX: number,
   return generateChunkBsp(seed, levelId, chunkX, chunkY);
 }
 
-export function generateChunkBsp(seed: number, levelId: number, chunkX: number, chunkY: number): ChunkEdges {
-  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'bsp_v4'));
+export function generateChunkBsp(
+  seed: number,
+  levelId: number,
+  chunkX: number,
+  chunkY: number,
+  opts: { label?: string; profile?: GenerationProfile } = {}
+): ChunkEdges {
+  // The seed label is owned by the generator registry (generators.ts); 'bsp_v4' is the doors_v1 label.
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, opts.label ?? 'bsp_v4'));
+  const profile = opts.profile ?? LEGACY_PROFILE;
 
   const east = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
   const south = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
@@ -46,15 +71,14 @@ export function generateChunkBsp(seed: number, levelId: number, chunkX: number,
   // Room membership mask (for door placement)
   const isRoom = new Uint8Array(CHUNK_SIZE * CHUNK_SIZE);
 
-  // Tuned for 64x64 chunks.
-  const LEAF_MIN_W = 12;
-  const LEAF_MIN_H = 12;
+  // Leaf/room sizes come from the depth profile (legacy: leaves 12, rooms 2..5).
+  const LEAF_MIN_W = profile.leafMin;
+  const LEAF_MIN_H = profile.leafMin;
 
-  // Rooms up to 5x5 requested; smaller common.
-  const ROOM_MIN_W = 2;
-  const ROOM_MIN_H = 2;
-  const ROOM_MAX_W = 5;
-  const ROOM_MAX_H = 5;
+  const ROOM_MIN_W = profile.roomMin;
+  const ROOM_MIN_H = profile.roomMin;
+  const ROOM_MAX_W = profile.roomMax;
+  const ROOM_MAX_H = profile.roomMax;
 
   // Keep rooms off leaf borders for clean corridors/doors.
   const ROOM_PAD_MIN = 1;
@@ -87,7 +111,10 @@ export function generateChunkBsp(seed: number, levelId: number, chunkX: number,
   });
 
   // Connect sibling subtrees with corridors
-  connectSubtrees(root, rng, { east, south });
+  connectSubtrees(root, rng, { east, south, profile });
+
+  // Join this chunk's network to its four neighbours through shared seam openings
+  stitchSeams(seed, levelId, chunkX, chunkY, root, { east, south, profile });
 
   // Door placement: ONLY where a room meets a corridor (non-room open space)
   const isCorr = deriveCorridorMask(east, south, isRoom);
@@ -102,7 +129,13 @@ export function generateChunkBsp(seed: number, levelId: number, chunkX: number,
   // Final sanitize after fallback
   sanitizeDoorsToRoomBoundaries(east, south, isRoom);
 
-  return { seed, levelId, chunkX, chunkY, east, south };
+  // Some doors start locked (deeper = more); own RNG stream so unlocked layouts are unaffected
+  if (profile.lockedDoorChance > 0) lockSomeDoors(seed, levelId, chunkX, chunkY, profile.lockedDoorChance, { east, south });
+
+  // Secret pocket goes last so it only ever claims untouched space
+  placeSecretPocket(seed, levelId, chunkX, chunkY, profile.pocketOneIn, { east, south });
+
+  return { seed, levelId, chunkX, chunkY, east, south, room: isRoom };
 }
 
 export function baseEdgeTypeFromChunk(
@@ -110,26 +143,27 @@ export function baseEdgeTypeFromChunk(
   lx: number,
   ly: number,
   dir: Dir
-): 'wall' | 'open' | 'door_unlocked' {
+): 'wall' | 'open' | 'door_unlocked' | 'door_locked' | 'lever_secret' {
   if (!inBounds(lx, ly)) return 'wall';
 
-  if (dir === 'E') {
-    const v = chunk.east[idx(lx, ly)];
-    return v === EDGE_DOOR ? 'door_unlocked' : v === EDGE_OPEN ? 'open' : 'wall';
-  }
-  if (dir === 'S') {
-    const v = chunk.south[idx(lx, ly)];
-    return v === EDGE_DOOR ? 'door_unlocked' : v === EDGE_OPEN ? 'open' : 'wall';
-  }
+  if (dir === 'E') return decodeEdge(chunk.east[idx(lx, ly)]!);
+  if (dir === 'S') return decodeEdge(chunk.south[idx(lx, ly)]!);
   if (dir === 'W') {
+    // West/north border edges are stored by the neighbouring chunk (resolve via ChunkCache).
     if (lx === 0) return 'wall';
-    const v = chunk.east[idx(lx - 1, ly)];
-    return v === EDGE_DOOR ? 'door_unlocked' : v === EDGE_OPEN ? 'open' : 'wall';
+    return decodeEdge(chunk.east[idx(lx - 1, ly)]!);
   }
   // N
   if (ly === 0) return 'wall';
-  const v = chunk.south[idx(lx, ly - 1)];
-  return v === EDGE_DOOR ? 'door_unlocked' : v === EDGE_OPEN ? 'open' : 'wall';
+  return decodeEdge(chunk.south[idx(lx, ly - 1)]!);
+}
+
+function decodeEdge(v: number): 'wall' | 'open' | 'door_unlocked' | 'door_locked' | 'lever_secret' {
+  if (v === EDGE_OPEN) return 'open';
+  if (v === EDGE_DOOR) return 'door_unlocked';
+  if (v === EDGE_DOOR_LOCKED) return 'door_locked';
+  if (v === EDGE_LEVER) return 'lever_secret';
+  return 'wall';
 }
 
 // ---------------- BSP build ----------------
@@ -263,7 +297,11 @@ function sampleRoomSize(rng: XorShift32, min: number, max: number): number {
 
 // ---------------- Connections (corridors) ----------------
 
-function connectSubtrees(node: BspNode, rng: XorShift32, cfg: { east: Uint8Array; south: Uint8Array }): void {
+function connectSubtrees(
+  node: BspNode,
+  rng: XorShift32,
+  cfg: { east: Uint8Array; south: Uint8Array; profile: GenerationProfile }
+): void {
   if (!node.left || !node.right) return;
 
   connectSubtrees(node.left, rng, cfg);
@@ -273,7 +311,7 @@ function connectSubtrees(node: BspNode, rng: XorShift32, cfg: { east: Uint8Array
   const b = pickConnPoint(node.right, rng);
   if (!a || !b) return;
 
-  carveCorridor(cfg.east, cfg.south, a.x, a.y, b.x, b.y, rng);
+  carveCorridor(cfg.east, cfg.south, a.x, a.y, b.x, b.y, rng, cfg.profile);
 
   node.conn = rng.int(0, 2) === 0 ? { x: a.x, y: a.y } : { x: b.x, y: b.y };
 }
@@ -303,7 +341,8 @@ function carveCorridor(
   y1: number,
   x2: number,
   y2: number,
-  rng: XorShift32
+  rng: XorShift32,
+  profile: GenerationProfile
 ): void {
   x1 = clampInt(x1, 0, CHUNK_SIZE - 1);
   y1 = clampInt(y1, 0, CHUNK_SIZE - 1);
@@ -311,7 +350,7 @@ function carveCorridor(
   y2 = clampInt(y2, 0, CHUNK_SIZE - 1);
 
   // Occasional 2-wide corridors
-  const wide = rng.int(0, 12) === 0;
+  const wide = rng.int(0, profile.wideCorridorOneIn) === 0;
 
   const horizFirst = rng.int(0, 2) === 0;
   if (x1 === x2 || y1 === y2) {
@@ -328,7 +367,7 @@ function carveCorridor(
   }
 
   // Rare loop: add a detour segment
-  if (rng.int(0, 25) === 0) {
+  if (rng.int(0, profile.loopOneIn) === 0) {
     const midx = clampInt(Math.floor((x1 + x2) / 2) + rng.int(-6, 7), 1, CHUNK_SIZE - 2);
     const midy = clampInt(Math.floor((y1 + y2) / 2) + rng.int(-6, 7), 1, CHUNK_SIZE - 2);
     carveLine(east, south, x1, y1, midx, midy, wide, rng);
@@ -358,24 +397,28 @@ function carveLine(
   let y = y1;
 
   while (x !== x2 || y !== y2) {
+    // One axis per step (x first): a diagonal step would open no edge at all.
     const nx = x + (x !== x2 ? dx : 0);
-    const ny = y + (y !== y2 ? dy : 0);
+    const ny = y + (x === x2 && y !== y2 ? dy : 0);
     openBetween(east, south, x, y, nx, ny);
 
     if (wide) {
       // Widen perpendicular to movement direction
+      // The side lane is also joined back to the main lane, otherwise it forms a sealed strip (I3).
       if (x !== nx) {
         // moving horizontally, widen vertically
         const off = rng.int(0, 2) === 0 ? -1 : 1;
         const y2w = clampInt(y + off, 0, CHUNK_SIZE - 1);
         const ny2w = clampInt(ny + off, 0, CHUNK_SIZE - 1);
         openBetween(east, south, x, y2w, nx, ny2w);
+        openBetween(east, south, x, y, x, y2w);
       } else if (y !== ny) {
         // moving vertically, widen horizontally
         const off = rng.int(0, 2) === 0 ? -1 : 1;
         const x2w = clampInt(x + off, 0, CHUNK_SIZE - 1);
         const nx2w = clampInt(nx + off, 0, CHUNK_SIZE - 1);
         openBetween(east, south, x2w, y, nx2w, ny);
+        openBetween(east, south, x, y, x2w, y);
       }
     }
 
@@ -384,6 +427,153 @@ function carveLine(
   }
 }
 
+// ---------------- Seams (chunk borders) ----------------
+
+/**
+ * Local offsets (1..62) of the openings on the border shared by (chunkX, chunkY) and its
+ * east ('E') or south ('S') neighbour.
+ *
+ * Keyed by the west/north chunk of the pair, so both neighbours compute the same result.
+ */
+export function seamOpenings(seed: number, levelId: number, chunkX: number, chunkY: number, side: 'E' | 'S'): number[] {
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, side === 'E' ? 'seam_e_v1' : 'seam_s_v1'));
+  const count = rng.int(SEAM_MIN_OPENINGS, SEAM_MAX_OPENINGS + 1);
+
+  const picks = new Set<number>();
+  for (let t = 0; t < count * 4 && picks.size < count; t++) {
+    picks.add(rng.int(1, CHUNK_SIZE - 1));
+  }
+  return Array.from(picks).sort((a, b) => a - b);
+}
+
+function stitchSeams(
+  seed: number,
+  levelId: number,
+  chunkX: number,
+  chunkY: number,
+  root: BspNode,
+  cfg: { east: Uint8Array; south: Uint8Array; profile: GenerationProfile }
+): void {
+  const rooms: Room[] = [];
+  collectRooms(root, rooms);
+  if (rooms.length === 0) return;
+
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'seam_carve_v1'));
+  const last = CHUNK_SIZE - 1;
+
+  const carveToNearestRoom = (x: number, y: number) => {
+    let best = rooms[0]!;
+    let bestD = Infinity;
+    for (const r of rooms) {
+      const d = Math.abs(r.cx - x) + Math.abs(r.cy - y);
+      if (d < bestD) {
+        best = r;
+        bestD = d;
+      }
+    }
+    carveCorridor(cfg.east, cfg.south, x, y, best.cx, best.cy, rng, cfg.profile);
+  };
+
+  // East/south seams are owned by this chunk: open the border edge itself.
+  for (const y of seamOpenings(seed, levelId, chunkX, chunkY, 'E')) {
+    cfg.east[idx(last, y)] = EDGE_OPEN;
+    carveToNearestRoom(last, y);
+  }
+  for (const x of seamOpenings(seed, levelId, chunkX, chunkY, 'S')) {
+    cfg.south[idx(x, last)] = EDGE_OPEN;
+    carveToNearestRoom(x, last);
+  }
+
+  // West/north seams are stored by the neighbour; only carve inward to meet them.
+  for (const y of seamOpenings(seed, levelId, chunkX - 1, chunkY, 'E')) carveToNearestRoom(0, y);
+  for (const x of seamOpenings(seed, levelId, chunkX, chunkY - 1, 'S')) carveToNearestRoom(x, 0);
+}
+
+function collectRooms(node: BspNode, out: Room[]): void {
+  if (node.left && node.right) {
+    collectRooms(node.left, out);
+    collectRooms(node.right, out);
+    return;
+  }
+  if (node.room) out.push(node.room);
+}
+
+// ---------------- Secret pockets ----------------
+
+function placeSecretPocket(
+  seed: number,
+  levelId: number,
+  chunkX: number,
+  chunkY: number,
+  oneIn: number,
+  cfg: { east: Uint8Array; south: Uint8Array }
+): void {
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'pocket_v1'));
+  if (rng.int(0, oneIn) !== 0) return;
+
+  const attempts = 60;
+  for (let t = 0; t < attempts; t++) {
+    const w = rng.int(POCKET_MIN_SIZE, POCKET_MAX_SIZE + 1);
+    const h = rng.int(POCKET_MIN_SIZE, POCKET_MAX_SIZE + 1);
+
+    // Keep the pocket and its lever neighbour off the chunk border (seams live there).
+    const x0 = rng.int(2, CHUNK_SIZE - 2 - w);
+    const y0 = rng.int(2, CHUNK_SIZE - 2 - h);
+
+    let untouched = true;
+    for (let y = y0; y < y0 + h && untouched; y++) {
+      for (let x = x0; x < x0 + w && untouched; x++) {
+        if (!isSolidCell(cfg.east, cfg.south, x, y)) untouched = false;
+      }
+    }
+    if (!untouched) continue;
+
+    // Lever candidates: perimeter edges whose outside cell is already carved.
+    const levers: Array<{ arr: Uint8Array; i: number }> = [];
+    for (let x = x0; x < x0 + w; x++) {
+      if (!isSolidCell(cfg.east, cfg.south, x, y0 - 1)) levers.push({ arr: cfg.south, i: idx(x, y0 - 1) });
+      if (!isSolidCell(cfg.east, cfg.south, x, y0 + h)) levers.push({ arr: cfg.south, i: idx(x, y0 + h - 1) });
+    }
+    for (let y = y0; y < y0 + h; y++) {
+      if (!isSolidCell(cfg.east, cfg.south, x0 - 1, y)) levers.push({ arr: cfg.east, i: idx(x0 - 1, y) });
+      if (!isSolidCell(cfg.east, cfg.south, x0 + w, y)) levers.push({ arr: cfg.east, i: idx(x0 + w - 1, y) });
+    }
+    if (levers.length === 0) continue;
+
+    carveRectRoom(cfg.east, cfg.south, x0, y0, w, h);
+    const lever = levers[rng.int(0, levers.length)]!;
+    lever.arr[lever.i] = EDGE_LEVER;
+    return;
+  }
+}
+
+// ---------------- Locked doors ----------------
+
+function lockSomeDoors(
+  seed: number,
+  levelId: number,
+  chunkX: number,
+  chunkY: number,
+  chance: number,
+  cfg: { east: Uint8Array; south: Uint8Array }
+): void {
+  const rng = new XorShift32(hashSeed(seed, levelId, chunkX, chunkY, 'locks_v1'));
+  for (const arr of [cfg.east, cfg.south]) {
+    for (let i = 0; i < arr.length; i++) {
+      if (arr[i] !== EDGE_DOOR) continue;
+      if (rng.float01() < chance) arr[i] = EDGE_DOOR_LOCKED;
+    }
+  }
+}
+
+function isSolidCell(east: Uint8Array, south: Uint8Array, x: number, y: number): boolean {
+  if (!inBounds(x, y)) return false;
+  if (east[idx(x, y)] !== EDGE_WALL || south[idx(x, y)] !== EDGE_WALL) return false;
+  if (x > 0 && east[idx(x - 1, y)] !== EDGE_WALL) return false;
+  if (y > 0 && south[idx(x, y - 1)] !== EDGE_WALL) return false;
+  return true;
+}
+
 // ---------------- Door placement ----------------
 
 function deriveCorridorMask(east: Uint8Array, south: Uint8Array, isRoom: Uint8Array): Uint8Array {
@@ -0,0 +1,126 @@
+// engine/src/monsters.ts
+//
+// Monster definitions (GAME_SPEC.md "Creatures"). Data only: the AI in entities.ts reads
+// temperament, speed and ranges from here, combat reads damage, the population controller reads
+// the rarity table; entities store just the def_id.
+
+import { depthTier } from './loot.js';
+import type { DamageRange } from './combat.js';
+
+export type Temperament = 'passive' | 'neutral' | 'aggressive';
+
+export interface MonsterDef {
+  defId: string;
+  name: string;
+  temperament: Temperament;
+  maxHp: number;
+  // One step per interval (players move every 250 ms).
+  moveIntervalMs: number;
+  // Roaming stays within this many tiles of home; chasing leashes at twice that.
+  homeRadius: number;
+  // Aggressive monsters pick up players this close (level-local, straight line).
+  aggroRange: number;
+  // Melee hit on the adjacent target, at most once per interval.
+  damage: DamageRange;
+  attackIntervalMs: number;
+  // Relative spawn weight per depth tier (loot.ts depthTier, shallow to deep); 0 = never spawns there.
+  spawnWeights: readonly [number, number, number, number, number];
+}
+
+export const MONSTER_DEFS: readonly MonsterDef[] = [
+  {
+    defId: 'rat',
+    name: 'Rat',
+    temperament: 'passive',
+    maxHp: 4,
+    moveIntervalMs: 600,
+    homeRadius: 6,
+    aggroRange: 0,
+    damage: [1, 2],
+    attackIntervalMs: 1200,
+    spawnWeights: [10, 6, 3, 1, 0]
+  },
+  {
+    defId: 'goblin',
+    name: 'Goblin',
+    temperament: 'neutral',
+    maxHp: 10,
+    moveIntervalMs: 700,
+    homeRadius: 8,
+    aggroRange: 5,
+    damage: [2, 4],
+    attackIntervalMs: 1200,
+    spawnWeights: [6, 8, 5, 2, 1]
+  },
+  {
+    defId: 'cave_spider',
+    name: 'Cave spider',
+    temperament: 'aggressive',
+    maxHp: 8,
+    moveIntervalMs: 500,
+    homeRadius: 6,
+    aggroRange: 5,
+    damage: [2, 5],
+    attackIntervalMs: 1000,
+    spawnWeights: [3, 6, 6, 4, 2]
+  },
+  {
+    defId: 'skeleton',
+    name: 'Skeleton',
+    temperament: 'aggressive',
+    maxHp: 16,
+    moveIntervalMs: 900,
+    homeRadius: 8,
+    aggroRange: 6,
+    damage: [3, 7],
+    attackIntervalMs: 1400,
+    spawnWeights: [0, 2, 6, 6, 4]
+  },
+  {
+    defId: 'troll',
+    name: 'Troll',
+    temperament: 'neutral',
+    maxHp: 40,
+    moveIntervalMs: 1000,
+    homeRadius: 10,
+    aggroRange: 4,
+    damage: [6, 12],
+    attackIntervalMs: 2000,
+    spawnWeights: [0, 0, 2, 5, 6]
+  },
+  {
+    defId: 'wraith',
+    name: 'Wraith',
+    temperament: 'aggressive',
+    maxHp: 30,
+    moveIntervalMs: 600,
+    homeRadius: 12,
+    aggroRange: 8,
+    damage: [5, 10],
+    attackIntervalMs: 1200,
+    spawnWeights: [0, 0, 0, 2, 5]
+  }
+];
+
+const BY_ID = new Map(MONSTER_DEFS.map((d) => [d.defId, d]));
+
+export function monsterDef(defId: string): MonsterDef | null {
+  return BY_ID.get(defId) ?? null;
+}
+
+/**
+ * Weighted pick from the rarity table for the level's depth tier. Null in town (level 0).
+ */
+export function pickMonsterDef(levelId: number, rng: () => number): MonsterDef | null {
+  if (levelId < 1) return null;
+  const tier = depthTier(levelId);
+  const pool = MONSTER_DEFS.filter((d) => (d.spawnWeights[tier] ?? 0) > 0);
+  const total = pool.reduce((n, d) => n + d.spawnWeights[tier]!, 0);
+
+  let r = rng() * total;
+  for (const d of pool) {
+    r -= d.spawnWeights[tier]!;
+    if (r < 0) return d;
+  }
+  return pool[pool.length - 1] ?? null;
+}
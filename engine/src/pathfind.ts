@@ -0,0 +1,175 @@
+// engine/src/pathfind.ts
+//
+// Grid search over edgeType (A*, Manhattan heuristic, unit step cost).
+//
+// Queries default to the 'minimap' purpose so planning never seeds hubs or materializes
+// frontier doors; pass 'movement' only when the caller is actually moving.
+
+import type { Dir } from './types.js';
+import type { DiscoveryProvider, EdgeQueryPurpose } from './world.js';
+import { step } from './world.js';
+
+export interface PathGraph {
+  canTraverseEdge(levelId: number, x: number, y: number, dir: Dir, purpose?: EdgeQueryPurpose): boolean;
+}
+
+export interface PathOptions {
+  purpose?: EdgeQueryPurpose;
+  // Search budget: max cells expanded before giving up.
+  maxExpanded?: number;
+  // Optional cell filter (the goal must pass it too).
+  allowCell?: (x: number, y: number) => boolean;
+}
+
+export type PathStep = { x: number; y: number; dir: Dir }; // cell reached by moving `dir`
+
+export type PathResult =
+  | { ok: true; steps: PathStep[]; expanded: number }
+  | { ok: false; reason: 'no_path' | 'budget_exhausted'; expanded: number };
+
+export const PATH_DEFAULT_BUDGET = 4096;
+
+// Extra box margin around start/goal when loading discovered cells.
+const DISCOVERED_MARGIN = 16;
+
+const DIRS: Dir[] = ['N', 'E', 'S', 'W'];
+
+export function findPath(
+  graph: PathGraph,
+  levelId: number,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  opts: PathOptions = {}
+): PathResult {
+  const purpose = opts.purpose ?? 'minimap';
+  const budget = opts.maxExpanded ?? PATH_DEFAULT_BUDGET;
+  const allow = opts.allowCell ?? (() => true);
+  const key = (x: number, y: number) => `${x},${y}`;
+  const h = (x: number, y: number) => Math.abs(x - to.x) + Math.abs(y - to.y);
+
+  if (from.x === to.x && from.y === to.y) return { ok: true, steps: [], expanded: 0 };
+  if (!allow(to.x, to.y)) return { ok: false, reason: 'no_path', expanded: 0 };
+
+  const g = new Map<string, number>([[key(from.x, from.y), 0]]);
+  const came = new Map<string, { px: number; py: number; dir: Dir }>();
+  const closed = new Set<string>();
+  const open = new MinHeap();
+  open.push(h(from.x, from.y), 0, from.x, from.y);
+
+  let expanded = 0;
+  while (open.size > 0) {
+    const cur = open.pop()!;
+    const ck = key(cur.x, cur.y);
+    if (closed.has(ck)) continue;
+    closed.add(ck);
+
+    if (cur.x === to.x && cur.y === to.y) return { ok: true, steps: unwind(came, to.x, to.y, from), expanded };
+
+    if (expanded >= budget) return { ok: false, reason: 'budget_exhausted', expanded };
+    expanded++;
+
+    for (const dir of DIRS) {
+      if (!graph.canTraverseEdge(levelId, cur.x, cur.y, dir, purpose)) continue;
+      const { nx, ny } = step(cur.x, cur.y, dir);
+      const nk = key(nx, ny);
+      if (closed.has(nk) || !allow(nx, ny)) continue;
+
+      const ng = cur.g + 1;
+      if (ng >= (g.get(nk) ?? Infinity)) continue;
+      g.set(nk, ng);
+      came.set(nk, { px: cur.x, py: cur.y, dir });
+      open.push(ng + h(nx, ny), ng, nx, ny);
+    }
+  }
+
+  return { ok: false, reason: 'no_path', expanded };
+}
+
+/**
+ * findPath restricted to globally discovered cells (start cell is always allowed).
+ */
+export function findPathDiscovered(
+  graph: PathGraph,
+  discovery: DiscoveryProvider,
+  levelId: number,
+  from: { x: number; y: number },
+  to: { x: number; y: number },
+  opts: Omit<PathOptions, 'allowCell'> = {}
+): PathResult {
+  const radius = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y)) + DISCOVERED_MARGIN;
+  const known = new Set(discovery.getDiscoveredInRadius(levelId, from.x, from.y, radius).map((c) => `${c.x},${c.y}`));
+  known.add(`${from.x},${from.y}`);
+  return findPath(graph, levelId, from, to, { ...opts, allowCell: (x, y) => known.has(`${x},${y}`) });
+}
+
+function unwind(
+  came: Map<string, { px: number; py: number; dir: Dir }>,
+  x: number,
+  y: number,
+  from: { x: number; y: number }
+): PathStep[] {
+  const out: PathStep[] = [];
+  while (!(x === from.x && y === from.y)) {
+    const c = came.get(`${x},${y}`)!;
+    out.push({ x, y, dir: c.dir });
+    x = c.px;
+    y = c.py;
+  }
+  return out.reverse();
+}
+
+// Binary heap on f; ties broken by larger g (prefer deeper nodes), then insertion order.
+class MinHeap {
+  private readonly items: Array<{ f: number; g: number; x: number; y: number; n: number }> = [];
+  private counter = 0;
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(f: number, g: number, x: number, y: number): void {
+    this.items.push({ f, g, x, y, n: this.counter++ });
+    let i = this.items.length - 1;
+    while (i > 0) {
+      const p = (i - 1) >> 1;
+      if (!this.less(i, p)) break;
+      this.swap(i, p);
+      i = p;
+    }
+  }
+
+  pop(): { f: number; g: number; x: number; y: number } | undefined {
+    if (this.items.length === 0) return undefined;
+    const top = this.items[0]!;
+    const last = this.items.pop()!;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let m = i;
+        if (l < this.items.length && this.less(l, m)) m = l;
+        if (r < this.items.length && this.less(r, m)) m = r;
+        if (m === i) break;
+        this.swap(i, m);
+        i = m;
+      }
+    }
+    return top;
+  }
+
+  private less(a: number, b: number): boolean {
+    const A = this.items[a]!;
+    const B = this.items[b]!;
+    if (A.f !== B.f) return A.f < B.f;
+    if (A.g !== B.g) return A.g > B.g;
+    return A.n < B.n;
+  }
+
+  private swap(a: number, b: number): void {
+    const t = this.items[a]!;
+    this.items[a] = this.items[b]!;
+    this.items[b] = t;
+  }
+}
@@ -0,0 +1,112 @@
+// engine/src/population.ts
+//
+// Per-level population controller (SIMULATION_RULES.md "Population controller").
+//
+//   target_population = base + per_player * active_players
+//   max_population    = ceil(target_population * 1.5)
+//
+// The controller tops a level up toward its target one monster at a time; max_population is
+// the hard ceiling (monsters can also arrive by ladder/chute). Spawn cells lie inside the active
+// region of a player on that level, out of every player's line of sight, and under the local
+// density cap. Every call returns a decision record so the server can log it for tuning.
+
+import type { Dir } from './types.js';
+import type { EdgeQueryPurpose } from './world.js';
+import { ACTIVE_RADIUS_TILES, withinRadius } from './regions.js';
+import { losReveal } from './visibility.js';
+import type { SightGraph } from './visibility.js';
+import { pickMonsterDef } from './monsters.js';
+
+export const POPULATION_BASE = 2;
+export const POPULATION_PER_PLAYER = 4;
+export const MAX_POPULATION_FACTOR = 1.5;
+
+// At most DENSITY_CAP monsters within DENSITY_RADIUS_TILES of a spawn cell.
+export const DENSITY_RADIUS_TILES = 8;
+export const DENSITY_CAP = 3;
+
+// Random cells tried per decision before giving up (no full scan of the active region). A sample
+// outside the active circle counts as a try, so no rng can keep a decision looping.
+const SPAWN_CELL_TRIES = 24;
+
+export interface PopulationWorld extends SightGraph {
+  canTraverseEdge(levelId: number, x: number, y: number, dir: Dir, purpose?: EdgeQueryPurpose): boolean;
+}
+
+export interface PopulationInput {
+  world: PopulationWorld;
+  levelId: number;
+  // Players on this level.
+  players: Array<{ x: number; y: number }>;
+  // Monsters currently on this level (all of them count toward the population).
+  population: number;
+  // Monster positions near the players, for the density cap.
+  nearby: Array<{ x: number; y: number }>;
+  isOccupied: (x: number, y: number) => boolean;
+  rng: () => number;
+}
+
+export type PopulationDecision = {
+  levelId: number;
+  activePlayers: number;
+  population: number;
+  target: number;
+  max: number;
+} & (
+  | { action: 'spawn'; defId: string; x: number; y: number }
+  | { action: 'skip'; reason: 'no_players' | 'at_target' | 'at_max' | 'no_def' | 'no_cell'; rejected?: RejectCounts }
+);
+
+export type RejectCounts = { outside: number; solid: number; occupied: number; visible: number; density: number };
+
+export function populationLimits(activePlayers: number): { target: number; max: number } {
+  const target = activePlayers > 0 ? POPULATION_BASE + POPULATION_PER_PLAYER * activePlayers : 0;
+  return { target, max: Math.ceil(target * MAX_POPULATION_FACTOR) };
+}
+
+export function planPopulation(input: PopulationInput): PopulationDecision {
+  const { target, max } = populationLimits(input.players.length);
+  const base = { levelId: input.levelId, activePlayers: input.players.length, population: input.population, target, max };
+
+  if (input.players.length === 0) return { ...base, action: 'skip', reason: 'no_players' };
+  if (input.population >= max) return { ...base, action: 'skip', reason: 'at_max' };
+  if (input.population >= target) return { ...base, action: 'skip', reason: 'at_target' };
+
+  const def = pickMonsterDef(input.levelId, input.rng);
+  if (!def) return { ...base, action: 'skip', reason: 'no_def' };
+
+  const visible = new Set<string>();
+  for (const p of input.players) {
+    visible.add(`${p.x},${p.y}`);
+    for (const c of losReveal(input.world, input.levelId, p)) visible.add(`${c.x},${c.y}`);
+  }
+
+  const rejected: RejectCounts = { outside: 0, solid: 0, occupied: 0, visible: 0, density: 0 };
+  for (let i = 0; i < SPAWN_CELL_TRIES; i++) {
+    const c = randomActiveCell(input.players, input.rng);
+
+    if (!c) rejected.outside++;
+    else if (!isCarved(input.world, input.levelId, c.x, c.y)) rejected.solid++;
+    else if (input.isOccupied(c.x, c.y)) rejected.occupied++;
+    else if (visible.has(`${c.x},${c.y}`)) rejected.visible++;
+    else if (input.nearby.filter((m) => withinRadius(m, c, DENSITY_RADIUS_TILES)).length >= DENSITY_CAP) rejected.density++;
+    else return { ...base, action: 'spawn', defId: def.defId, x: c.x, y: c.y };
+  }
+
+  return { ...base, action: 'skip', reason: 'no_cell', rejected };
+}
+
+// One sample of the square around a player's active circle: uniform inside the circle, null
+// when it lands in a corner outside it.
+function randomActiveCell(players: Array<{ x: number; y: number }>, rng: () => number): { x: number; y: number } | null {
+  const p = players[Math.floor(rng() * players.length)]!;
+  const r = ACTIVE_RADIUS_TILES;
+  const dx = Math.floor(rng() * (2 * r + 1)) - r;
+  const dy = Math.floor(rng() * (2 * r + 1)) - r;
+  return dx * dx + dy * dy <= r * r ? { x: p.x + dx, y: p.y + dy } : null;
+}
+
+// Floor cells have at least one way out; solid rock has none. Read-only edge queries.
+function isCarved(world: PopulationWorld, levelId: number, x: number, y: number): boolean {
+  return (['N', 'E', 'S', 'W'] as const).some((d) => world.canTraverseEdge(levelId, x, y, d, 'minimap'));
+}
@@ -0,0 +1,120 @@
+// engine/src/profiles.ts
+//
+// Data-driven generation profiles selected by level_id ("difficulty scales with depth").
+//
+// Profiles are part of a generator version's output (see generators.ts): changing a band
+// that a registered version uses is generator drift. Add a new table + version instead.
+
+export interface GenerationProfile {
+  // BSP layout (base chunks)
+  leafMin: number; // smaller leaves => more rooms => denser maze, more doors
+  roomMin: number;
+  roomMax: number;
+  wideCorridorOneIn: number;
+  loopOneIn: number;
+  pocketOneIn: number;
+
+  // Chance that a generated door edge starts locked, and its lock difficulty.
+  lockedDoorChance: number;
+  lockDifficulty: number;
+
+  // Server-side frontier expander (DbOverlayProvider).
+  expander: {
+    twoExitChance: number;
+    oneExitChance: number;
+    corridorChance: number;
+    roomExtraDoorChance: number;
+    hubSecondDoorChance: number;
+  };
+}
+
+// Fixed constants used before profiles existed (doors_v1).
+export const LEGACY_PROFILE: GenerationProfile = {
+  leafMin: 12,
+  roomMin: 2,
+  roomMax: 5,
+  wideCorridorOneIn: 12,
+  loopOneIn: 25,
+  pocketOneIn: 3,
+  lockedDoorChance: 0,
+  lockDifficulty: 1,
+  expander: {
+    twoExitChance: 0.2,
+    oneExitChance: 0.7,
+    corridorChance: 0.72,
+    roomExtraDoorChance: 0.55,
+    hubSecondDoorChance: 0.35
+  }
+};
+
+// depth_v1 bands: the deepest band whose minLevel <= levelId applies.
+export const DEPTH_PROFILES_V1: Array<{ minLevel: number; profile: GenerationProfile }> = [
+  { minLevel: 0, profile: LEGACY_PROFILE },
+  {
+    minLevel: 3,
+    profile: {
+      leafMin: 11,
+      roomMin: 2,
+      roomMax: 5,
+      wideCorridorOneIn: 10,
+      loopOneIn: 18,
+      pocketOneIn: 3,
+      lockedDoorChance: 0.04,
+      lockDifficulty: 3,
+      expander: { twoExitChance: 0.25, oneExitChance: 0.72, corridorChance: 0.7, roomExtraDoorChance: 0.6, hubSecondDoorChance: 0.4 }
+    }
+  },
+  {
+    minLevel: 6,
+    profile: {
+      leafMin: 10,
+      roomMin: 2,
+      roomMax: 5,
+      wideCorridorOneIn: 9,
+      loopOneIn: 12,
+      pocketOneIn: 2,
+      lockedDoorChance: 0.08,
+      lockDifficulty: 5,
+      expander: { twoExitChance: 0.3, oneExitChance: 0.75, corridorChance: 0.68, roomExtraDoorChance: 0.65, hubSecondDoorChance: 0.45 }
+    }
+  },
+  {
+    minLevel: 10,
+    profile: {
+      leafMin: 9,
+      roomMin: 2,
+      roomMax: 4,
+      wideCorridorOneIn: 8,
+      loopOneIn: 8,
+      pocketOneIn: 2,
+      lockedDoorChance: 0.14,
+      lockDifficulty: 8,
+      expander: { twoExitChance: 0.35, oneExitChance: 0.78, corridorChance: 0.66, roomExtraDoorChance: 0.7, hubSecondDoorChance: 0.5 }
+    }
+  },
+  {
+    minLevel: 20,
+    profile: {
+      leafMin: 8,
+      roomMin: 2,
+      roomMax: 4,
+      wideCorridorOneIn: 8,
+      loopOneIn: 6,
+      pocketOneIn: 2,
+      lockedDoorChance: 0.2,
+      lockDifficulty: 12,
+      expander: { twoExitChance: 0.4, oneExitChance: 0.8, corridorChance: 0.64, roomExtraDoorChance: 0.75, hubSecondDoorChance: 0.5 }
+    }
+  }
+];
+
+export function profileFromTable(
+  table: Array<{ minLevel: number; profile: GenerationProfile }>,
+  levelId: number
+): GenerationProfile {
+  let out = table[0]!.profile;
+  for (const band of table) {
+    if (levelId >= band.minLevel) out = band.profile;
+  }
+  return out;
+}
@@ -0,0 +1,42 @@
+// engine/src/regions.ts
+//
+// Active regions (SIMULATION_RULES.md "Active regions"): the union of level-local circles of
+// radius ACTIVE_RADIUS_TILES around players. Only active chunks run spawn checks and ticks.
+
+import type { ChunkKey } from './types.js';
+import { CHUNK_SIZE, floorDiv } from './world.js';
+
+export const ACTIVE_RADIUS_TILES = 24;
+export const DESPAWN_RADIUS_TILES = 18;
+
+export function withinRadius(a: { x: number; y: number }, b: { x: number; y: number }, radius: number): boolean {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return dx * dx + dy * dy <= radius * radius;
+}
+
+/**
+ * Chunks touched by any player's active circle (deduplicated, level-local).
+ */
+export function activeChunks(players: Array<{ levelId: number; x: number; y: number }>, radius: number = ACTIVE_RADIUS_TILES): ChunkKey[] {
+  const out = new Map<string, ChunkKey>();
+
+  for (const p of players) {
+    const cx0 = floorDiv(p.x - radius, CHUNK_SIZE);
+    const cx1 = floorDiv(p.x + radius, CHUNK_SIZE);
+    const cy0 = floorDiv(p.y - radius, CHUNK_SIZE);
+    const cy1 = floorDiv(p.y + radius, CHUNK_SIZE);
+
+    for (let cy = cy0; cy <= cy1; cy++) {
+      for (let cx = cx0; cx <= cx1; cx++) {
+        // Closest point of the chunk to the player must lie inside the circle.
+        const nx = Math.max(cx * CHUNK_SIZE, Math.min(p.x, cx * CHUNK_SIZE + CHUNK_SIZE - 1));
+        const ny = Math.max(cy * CHUNK_SIZE, Math.min(p.y, cy * CHUNK_SIZE + CHUNK_SIZE - 1));
+        if (!withinRadius(p, { x: nx, y: ny }, radius)) continue;
+        out.set(`${p.levelId}:${cx}:${cy}`, { levelId: p.levelId, chunkX: cx, chunkY: cy });
+      }
+    }
+  }
+
+  return Array.from(out.values());
+}
@@ -0,0 +1,91 @@
+// engine/src/town.ts
+//
+// Authored town map format (level 0).
+//
+// Level 0 is never generated (ARCHITECTURE.md): it exists only as cell/edge overrides
+// imported from a map file. The grid uses the ascii.ts map format: '.'/':' cells are town,
+// ' ' cells are solid; origin is the world coordinate of the top-left cell.
+
+import type { Dir, EdgeType } from './types.js';
+import { parseAscii } from './ascii.js';
+
+export const TOWN_LEVEL_ID = 0;
+
+export type TownZoneKind = 'shop' | 'temple';
+
+export interface TownZone {
+  id: string;
+  kind: TownZoneKind;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface TownSpawn {
+  id: string;
+  x: number;
+  y: number;
+  face: Dir;
+}
+
+export interface TownMap {
+  name: string;
+  cells: Array<{ x: number; y: number; zoneId: string | null }>;
+  // Canonical E/S edges touching at least one town cell (both sides are written on import).
+  edges: Array<{ x: number; y: number; dir: 'E' | 'S'; edgeType: EdgeType }>;
+  zones: TownZone[];
+  spawns: TownSpawn[];
+}
+
+function isDir(v: any): v is Dir {
+  return v === 'N' || v === 'E' || v === 'S' || v === 'W';
+}
+
+/**
+ * Parses and validates a town map file (already JSON-decoded). Throws on malformed input.
+ */
+export function parseTownMap(input: any): TownMap {
+  if (!input || typeof input !== 'object') throw new Error('town map must be an object');
+  const name = typeof input.name === 'string' && input.name ? input.name : 'town';
+  const ox = Number(input.origin?.x ?? 0);
+  const oy = Number(input.origin?.y ?? 0);
+  if (!Number.isInteger(ox) || !Number.isInteger(oy)) throw new Error('origin must be integer x/y');
+
+  if (!Array.isArray(input.grid)) throw new Error('grid must be an array of rows');
+  const ascii = parseAscii(input.grid.map(String), { origin: { x: ox, y: oy } });
+  const town = new Set(ascii.cells.filter((c) => c.kind !== 'solid').map((c) => `${c.x},${c.y}`));
+  const floor = (x: number, y: number) => town.has(`${x},${y}`);
+
+  const zones: TownZone[] = [];
+  for (const z of Array.isArray(input.zones) ? input.zones : []) {
+    if (typeof z?.id !== 'string' || (z.kind !== 'shop' && z.kind !== 'temple')) throw new Error('zone needs id and kind shop|temple');
+    if (![z.x, z.y, z.w, z.h].every(Number.isInteger)) throw new Error(`zone ${z.id} needs integer x/y/w/h`);
+    zones.push({ id: z.id, kind: z.kind, x: z.x, y: z.y, w: z.w, h: z.h });
+  }
+  const zoneAt = (x: number, y: number) => zones.find((z) => x >= z.x && y >= z.y && x < z.x + z.w && y < z.y + z.h) ?? null;
+
+  const cells: TownMap['cells'] = [];
+  for (const c of ascii.cells) {
+    if (floor(c.x, c.y)) cells.push({ x: c.x, y: c.y, zoneId: zoneAt(c.x, c.y)?.id ?? null });
+  }
+
+  // Keep only edges touching the town; anything passable must join two town cells.
+  const edges: TownMap['edges'] = [];
+  for (const e of ascii.edges) {
+    const a = floor(e.x, e.y);
+    const b = floor(e.dir === 'E' ? e.x + 1 : e.x, e.dir === 'S' ? e.y + 1 : e.y);
+    if (!a && !b) continue;
+    if (e.edgeType !== 'wall' && !(a && b)) throw new Error(`edge ${e.x},${e.y} ${e.dir} opens onto a non-town cell`);
+    edges.push(e);
+  }
+
+  const spawns: TownSpawn[] = [];
+  for (const s of Array.isArray(input.spawns) ? input.spawns : []) {
+    if (typeof s?.id !== 'string' || !Number.isInteger(s.x) || !Number.isInteger(s.y)) throw new Error('spawn needs id and integer x/y');
+    if (!floor(s.x, s.y)) throw new Error(`spawn ${s.id} is not on a town cell`);
+    spawns.push({ id: s.id, x: s.x, y: s.y, face: isDir(s.face) ? s.face : 'N' });
+  }
+
+  return { name, cells, edges, zones, spawns };
+}
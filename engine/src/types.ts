@@ -36,10 +36,38 @@ export interface ChunkEdges {
   // 0 = wall
   // 1 = open
   // 2 = door (unlocked)
+  // 3 = lever (secret pocket exit)
+  // 4 = door (locked)
   east: Uint8Array; // length 64*64
   south: Uint8Array; // length 64*64
+
+  // Room membership per cell (1 = room floor, 0 = corridor/solid). Doors may only sit on room boundaries.
+  room: Uint8Array; // length 64*64
 }
 
+// Level connector occupying one cell (see connectors.ts).
+// Ladders exist at both ends; chutes only at the top (one-way).
+export interface Connector {
+  kind: 'ladder' | 'chute';
+  levelId: number;
+  x: number;
+  y: number;
+  toLevelId: number;
+  toX: number;
+  toY: number;
+}
+
+// Objects on a cell (ARCHITECTURE.md "Client views": visible up to 2 cells away).
+export type CellFeature =
+  | { kind: 'ladder'; toLevelId: number }
+  | { kind: 'chute'; toLevelId: number }
+  | { kind: 'lever'; dir: Dir } // lever_secret edge on this side of the cell
+  | { kind: 'chest'; id: string; locked: boolean; opened?: boolean }
+  | { kind: 'monster'; id: string; defId: string; hp: number }
+  | { kind: 'corpse'; id: string }
+  | { kind: 'bones'; id: string; qty: number }
+  | { kind: 'trap'; id: string };
+
 export interface PlayerState {
   levelId: number;
   x: number;
@@ -53,19 +81,25 @@ export interface ViewCell {
   y: number;
   // Edge types for rendering/validation (N/E/S/W)
   edges: Record<Dir, EdgeType>;
+  // Empty beyond the object range.
+  objects: CellFeature[];
 }
 
 export type MinimapCell = {
   x: number;
   y: number;
   edges: Record<Dir, EdgeType>;
+  // Landmarks only (ladders/chutes); omitted when there are none.
+  objects?: CellFeature[];
+  // Seen along this character's line of sight but not yet globally discovered.
+  revealed?: true;
 };
 
 export interface WorldView {
   nowMs: number;
   you: PlayerState;
   visibleCells: ViewCell[]; // depth 3 rays (all directions)
-  minimapCells: MinimapCell[]; // discovered around you (with edges)
+  minimapCells: MinimapCell[]; // discovered + revealed around you (with edges)
   cooldowns: {
     moveReadyAtMs: number;
     turnReadyAtMs: number;
@@ -1,2 +1,56 @@
-// Reserved for later: LoS reveal, trap detection visibility rules, entity interest management.
-export {};
+// engine/src/visibility.ts
+//
+// Per-player line-of-sight reveal (GAME_SPEC.md "Discovery", ARCHITECTURE.md I5).
+//
+// - Reveals run straight out from the player's cell in all four directions.
+// - A wall or locked door ends the ray; open edges, unlocked doors and levers let it continue.
+// - Reveals are permanent per character and never count as global discovery.
+
+import type { Dir, EdgeType } from './types.js';
+import type { EdgeQueryPurpose } from './world.js';
+
+// Cells per ray; matches the minimap radius.
+export const LOS_REVEAL_RANGE = 12;
+
+export interface RevealProvider {
+  markRevealed(levelId: number, cells: Array<{ x: number; y: number }>, nowMs: number): void;
+  getRevealedInRadius(levelId: number, x: number, y: number, radius: number): Array<{ x: number; y: number }>;
+}
+
+export interface SightGraph {
+  edgeType(levelId: number, x: number, y: number, dir: Dir, purpose?: EdgeQueryPurpose): EdgeType;
+}
+
+export function blocksSight(e: EdgeType): boolean {
+  return e === 'wall' || e === 'door_locked';
+}
+
+/**
+ * Cells revealed from (x, y), excluding the start cell. Read-only: uses 'visibility' edges.
+ */
+export function losReveal(
+  graph: SightGraph,
+  levelId: number,
+  from: { x: number; y: number },
+  range: number = LOS_REVEAL_RANGE
+): Array<{ x: number; y: number }> {
+  const out: Array<{ x: number; y: number }> = [];
+
+  for (const [dir, dx, dy] of [
+    ['N', 0, -1],
+    ['E', 1, 0],
+    ['S', 0, 1],
+    ['W', -1, 0]
+  ] as const) {
+    let x = from.x;
+    let y = from.y;
+    for (let d = 0; d < range; d++) {
+      if (blocksSight(graph.edgeType(levelId, x, y, dir, 'visibility'))) break;
+      x += dx;
+      y += dy;
+      out.push({ x, y });
+    }
+  }
+
+  return out;
+}
@@ -1,10 +1,31 @@
 // engine/src/world.ts
-import type { Dir, EdgeType, PlayerState, ViewCell, WorldView, MinimapCell } from './types.js';
+import type { CellFeature, ChunkEdges, Connector, Dir, EdgeType, PlayerState, ViewCell, WorldView, MinimapCell } from './types.js';
 import { stableHash } from './hash.js';
+import { baseEdgeTypeFromChunk } from './maze.js';
+import { ConnectorIndex, fallDamage } from './connectors.js';
+import { TOWN_LEVEL_ID } from './town.js';
+import { getGenerator } from './generators.js';
+import { losReveal } from './visibility.js';
+import { DETECT_RANGE, detectChance, leverRef, secretKey } from './detection.js';
+import type { DetectionProvider, SecretRef } from './detection.js';
+import { canTraverseDoor, lockedDoor } from './locks.js';
+import type { DoorLockState } from './locks.js';
+import type { RevealProvider } from './visibility.js';
+import { activeChunks, withinRadius } from './regions.js';
+import type { GeneratorSpec } from './generators.js';
 
 export const CHUNK_SIZE = 64;
 export const CELL_FEET = 5;
 
+// Objects are visible up to this many cells away (edges up to the view depth of 3).
+export const OBJECT_RANGE = 2;
+
+// Context actions on objects (lockpick, open) reach this many cells, and only visible cells (V2).
+export const INTERACT_RANGE = 1;
+
+// Generated chunks kept per engine instance (least recently used are evicted first).
+export const CHUNK_CACHE_MAX = 64;
+
 export interface EdgeOverride {
   edgeType: EdgeType;
   lockDifficulty?: number;
@@ -18,6 +39,12 @@ export interface WorldOverlayProvider {
   getEdgeOverride(levelId: number, x: number, y: number, dir: Dir, purpose?: EdgeQueryPurpose): EdgeOverride | null;
 }
 
+// Objects stored outside the generator (chests, corpses, traps, admin-placed features).
+// Generated connectors and lever edges are added by the engine itself.
+export interface CellFeatureProvider {
+  getFeatures(levelId: number, x: number, y: number): CellFeature[];
+}
+
 export interface DiscoveryProvider {
   markDiscovered(levelId: number, x: number, y: number, nowMs: number): void;
   getDiscoveredInRadius(levelId: number, x: number, y: number, radius: number): Array<{ x: number; y: number }>;
@@ -43,17 +70,101 @@ export function mod(a: number, b: number): number {
   return r < 0 ? r + b : r;
 }
 
+/**
+ * Bounded cache of deterministic base chunks for one world seed.
+ *
+ * Edges are canonical: N/W are read from the neighbour's S/E, so both sides of a
+ * chunk border always agree on the same stored value.
+ */
+export class ChunkCache {
+  private readonly chunks = new Map<string, ChunkEdges>();
+
+  private readonly generator: GeneratorSpec;
+
+  constructor(
+    private readonly seed: number,
+    private readonly maxChunks: number = CHUNK_CACHE_MAX,
+    generatorVersion?: string
+  ) {
+    this.generator = getGenerator(generatorVersion);
+  }
+
+  get(levelId: number, chunkX: number, chunkY: number): ChunkEdges {
+    const k = `${levelId}:${chunkX}:${chunkY}`;
+    const hit = this.chunks.get(k);
+    if (hit) {
+      // Refresh LRU position (Map keeps insertion order).
+      this.chunks.delete(k);
+      this.chunks.set(k, hit);
+      return hit;
+    }
+
+    const chunk = this.generator.generateChunk(this.seed, levelId, chunkX, chunkY);
+    this.chunks.set(k, chunk);
+
+    while (this.chunks.size > Math.max(1, this.maxChunks)) {
+      const oldest = this.chunks.keys().next().value as string;
+      this.chunks.delete(oldest);
+    }
+
+    return chunk;
+  }
+
+  edgeType(levelId: number, x: number, y: number, dir: Dir): EdgeType {
+    if (dir === 'W') return this.edgeType(levelId, x - 1, y, 'E');
+    if (dir === 'N') return this.edgeType(levelId, x, y - 1, 'S');
+
+    const chunk = this.get(levelId, floorDiv(x, CHUNK_SIZE), floorDiv(y, CHUNK_SIZE));
+    return baseEdgeTypeFromChunk(chunk, mod(x, CHUNK_SIZE), mod(y, CHUNK_SIZE), dir);
+  }
+
+  isRoom(levelId: number, x: number, y: number): boolean {
+    const chunk = this.get(levelId, floorDiv(x, CHUNK_SIZE), floorDiv(y, CHUNK_SIZE));
+    return chunk.room[mod(y, CHUNK_SIZE) * CHUNK_SIZE + mod(x, CHUNK_SIZE)] === 1;
+  }
+
+  get size(): number {
+    return this.chunks.size;
+  }
+}
+
 export class WorldEngine {
   private readonly seed: number;
   private readonly overlay: WorldOverlayProvider;
+  private readonly features: CellFeatureProvider | null;
   private readonly discovery: DiscoveryProvider;
+  private readonly reveals: RevealProvider | null;
+  private readonly detection: DetectionProvider | null;
   private readonly time: TimeProvider;
-
-  constructor(opts: { seed: number; overlay: WorldOverlayProvider; discovery: DiscoveryProvider; time: TimeProvider }) {
+  private readonly chunks: ChunkCache;
+  private readonly connectors: ConnectorIndex;
+  private readonly generator: GeneratorSpec;
+
+  constructor(opts: {
+    seed: number;
+    overlay: WorldOverlayProvider;
+    features?: CellFeatureProvider;
+    discovery: DiscoveryProvider;
+    // Per-character LoS reveals; kept apart from global discovery (I5).
+    reveals?: RevealProvider;
+    // Per-viewer secret detection. Without it there is no projection: levers and chutes show as
+    // generated and chutes still trigger accidental falls (tools, tests).
+    detection?: DetectionProvider;
+    time: TimeProvider;
+    // worlds.generator_version; defaults to CURRENT_GENERATOR_VERSION.
+    generatorVersion?: string;
+    chunkCacheMax?: number;
+  }) {
     this.seed = opts.seed;
     this.overlay = opts.overlay;
+    this.features = opts.features ?? null;
     this.discovery = opts.discovery;
+    this.reveals = opts.reveals ?? null;
+    this.detection = opts.detection ?? null;
     this.time = opts.time;
+    this.chunks = new ChunkCache(this.seed, opts.chunkCacheMax ?? CHUNK_CACHE_MAX, opts.generatorVersion);
+    this.generator = getGenerator(opts.generatorVersion);
+    this.connectors = new ConnectorIndex(this.seed, (l, cx, cy) => this.chunks.get(l, cx, cy), opts.chunkCacheMax ?? CHUNK_CACHE_MAX);
   }
 
   getHub(levelId: number): { levelId: number; x: number; y: number } {
@@ -67,21 +178,103 @@ export class WorldEngine {
   }
 
   edgeType(levelId: number, x: number, y: number, dir: Dir, purpose: EdgeQueryPurpose = 'movement'): EdgeType {
+    const e = this.worldEdgeType(levelId, x, y, dir, purpose);
+
+    // Per-viewer projection: an undetected lever is just a wall (no sight, no passage, no minimap dash).
+    if (e === 'lever_secret' && !this.isDetected(leverRef(levelId, x, y, dir))) return 'wall';
+    return e;
+  }
+
+  // Edge type before the viewer's detection projection.
+  private worldEdgeType(levelId: number, x: number, y: number, dir: Dir, purpose: EdgeQueryPurpose): EdgeType {
+    // I2: stored overrides always win over the generated base.
     const ov = this.overlay.getEdgeOverride(levelId, x, y, dir, purpose);
     if (ov) return ov.edgeType;
 
-    // No base generation: unknown space is solid until the overlay writes structure.
-    return 'wall';
+    // I1: deterministic base layer from (seed, level, chunkX, chunkY).
+    return this.baseEdgeType(levelId, x, y, dir);
+  }
+
+  /**
+   * Lock state of a door edge (null for non-doors). Stored lock_state_json wins; otherwise the
+   * door is in its generated state with the depth profile's lock difficulty. Read-only ('minimap').
+   */
+  doorLockAt(levelId: number, x: number, y: number, dir: Dir): DoorLockState | null {
+    const ov = this.overlay.getEdgeOverride(levelId, x, y, dir, 'minimap');
+    const e = ov ? ov.edgeType : this.baseEdgeType(levelId, x, y, dir);
+    if (e !== 'door_locked' && e !== 'door_unlocked') return null;
+
+    const difficulty = ov?.lockDifficulty ?? this.generator.profile(levelId).lockDifficulty;
+    return { ...lockedDoor(difficulty, ov?.keyMonsterEntityId ?? null), locked: e === 'door_locked' };
+  }
+
+  /**
+   * Absolute room cells of a generated chunk that can hold a spawned chest (no connectors).
+   */
+  chestSpawnCells(levelId: number, chunkX: number, chunkY: number): Array<{ x: number; y: number }> {
+    if (levelId === TOWN_LEVEL_ID) return [];
+    const chunk = this.chunks.get(levelId, chunkX, chunkY);
+    const out: Array<{ x: number; y: number }> = [];
+    for (let ly = 0; ly < CHUNK_SIZE; ly++) {
+      for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+        if (chunk.room[ly * CHUNK_SIZE + lx] !== 1) continue;
+        const x = chunkX * CHUNK_SIZE + lx;
+        const y = chunkY * CHUNK_SIZE + ly;
+        if (!this.connectors.markerAt(levelId, x, y)) out.push({ x, y });
+      }
+    }
+    return out;
+  }
+
+  private isDetected(ref: SecretRef): boolean {
+    return this.detection ? this.detection.isDetected(ref) : true;
+  }
+
+  // Connector marker as this viewer sees it: undetected chutes are hidden.
+  private markerAt(levelId: number, x: number, y: number): CellFeature | null {
+    const c = this.connectors.markerAt(levelId, x, y);
+    if (c && c.kind === 'chute' && !this.isDetected({ kind: 'chute', levelId, x, y })) return null;
+    return c;
+  }
+
+  baseEdgeType(levelId: number, x: number, y: number, dir: Dir): EdgeType {
+    // The town is authored only (overrides); everything outside it is solid.
+    if (levelId === TOWN_LEVEL_ID) return 'wall';
+    return this.chunks.edgeType(levelId, x, y, dir);
+  }
+
+  baseIsRoom(levelId: number, x: number, y: number): boolean {
+    if (levelId === TOWN_LEVEL_ID) return false;
+    return this.chunks.isRoom(levelId, x, y);
   }
 
   private canTraverseAbs(levelId: number, x: number, y: number, absDir: Dir): boolean {
-    const e = this.edgeType(levelId, x, y, absDir, 'movement');
-    return e === 'open' || e === 'door_unlocked' || e === 'lever_secret';
+    return this.canTraverseEdge(levelId, x, y, absDir, 'movement');
+  }
+
+  /**
+   * Traversal rule for one absolute edge. Use 'minimap' for planning (no frontier materialization).
+   * moverEntityId is the entity crossing (null for players): a door's key-monster passes it while
+   * locked (D4).
+   */
+  canTraverseEdge(
+    levelId: number,
+    x: number,
+    y: number,
+    dir: Dir,
+    purpose: EdgeQueryPurpose = 'movement',
+    moverEntityId: string | null = null
+  ): boolean {
+    const e = this.edgeType(levelId, x, y, dir, purpose);
+    if (e !== 'door_locked' || moverEntityId === null) return isTraversable(e);
+
+    const lock = this.doorLockAt(levelId, x, y, dir);
+    return lock !== null && canTraverseDoor(lock, moverEntityId);
   }
 
-  canTraverse(levelId: number, x: number, y: number, face: Dir, moveDir: MoveDir = 'F'): boolean {
+  canTraverse(levelId: number, x: number, y: number, face: Dir, moveDir: MoveDir = 'F', moverEntityId: string | null = null): boolean {
     const absDir = moveDirToAbs(face, moveDir);
-    return this.canTraverseAbs(levelId, x, y, absDir);
+    return this.canTraverseEdge(levelId, x, y, absDir, 'movement', moverEntityId);
   }
 
   /**
@@ -105,11 +298,135 @@ export class WorldEngine {
 
     const { nx, ny } = step(player.x, player.y, absDir);
     const next: PlayerState = { ...player, x: nx, y: ny };
-    this.discovery.markDiscovered(next.levelId, next.x, next.y, now);
+    this.arrive(next, now);
 
     return { ok: true, player: next };
   }
 
+  connectorAt(levelId: number, x: number, y: number): Connector | null {
+    return this.connectors.at(levelId, x, y);
+  }
+
+  /**
+   * Generated connectors (ladder ends, chute tops) within a straight-line radius of (x, y).
+   */
+  connectorsNear(levelId: number, x: number, y: number, radius: number): Connector[] {
+    if (levelId === TOWN_LEVEL_ID) return [];
+    const out: Connector[] = [];
+    for (const k of activeChunks([{ levelId, x, y }], radius)) {
+      for (const c of this.connectors.inChunk(levelId, k.chunkX, k.chunkY)) {
+        if (withinRadius(c, { x, y }, radius)) out.push(c);
+      }
+    }
+    return out;
+  }
+
+  /**
+   * Everything on a cell: generated connectors, lever edges, then provider objects.
+   */
+  featuresAt(levelId: number, x: number, y: number, purpose: EdgeQueryPurpose = 'visibility'): CellFeature[] {
+    const out: CellFeature[] = [];
+
+    const c = this.markerAt(levelId, x, y);
+    if (c) out.push(c);
+
+    for (const dir of ['N', 'E', 'S', 'W'] as const) {
+      if (this.edgeType(levelId, x, y, dir, purpose) === 'lever_secret') out.push({ kind: 'lever', dir });
+    }
+
+    if (this.features) out.push(...this.features.getFeatures(levelId, x, y));
+    return out;
+  }
+
+  /**
+   * Ladder context action: moves to the other end (shares the move cooldown).
+   */
+  climb(player: PlayerState, cooldowns: CooldownState): { ok: boolean; reason?: string; player?: PlayerState } {
+    const now = this.time.nowMs();
+    if (now < cooldowns.moveReadyAtMs) return { ok: false, reason: 'move_cooldown' };
+
+    const c = this.connectorAt(player.levelId, player.x, player.y);
+    if (!c || c.kind !== 'ladder') return { ok: false, reason: 'no_ladder' };
+
+    const next: PlayerState = { ...player, levelId: c.toLevelId, x: c.toX, y: c.toY };
+    this.arrive(next, now);
+    return { ok: true, player: next };
+  }
+
+  /**
+   * Chute traversal. intentional=true is the "jump" context action (needs a detected chute);
+   * false is an accidental fall (stepping onto an undetected chute). HP never drops below 1 here.
+   */
+  fall(
+    player: PlayerState,
+    cooldowns: CooldownState,
+    intentional: boolean
+  ): { ok: boolean; reason?: string; player?: PlayerState; drop?: number; damage?: number } {
+    const now = this.time.nowMs();
+    if (intentional && now < cooldowns.moveReadyAtMs) return { ok: false, reason: 'move_cooldown' };
+
+    const c = this.connectorAt(player.levelId, player.x, player.y);
+    if (!c || c.kind !== 'chute') return { ok: false, reason: 'no_chute' };
+
+    if (this.detection) {
+      const detected = this.detection.isDetected({ kind: 'chute', levelId: c.levelId, x: c.x, y: c.y });
+      if (intentional && !detected) return { ok: false, reason: 'no_chute' };
+      if (!intentional && detected) return { ok: false, reason: 'chute_detected' };
+    }
+
+    const drop = c.toLevelId - c.levelId;
+    const damage = fallDamage(drop, intentional);
+    const next: PlayerState = { ...player, levelId: c.toLevelId, x: c.toX, y: c.toY, hp: Math.max(1, player.hp - damage) };
+    this.arrive(next, now);
+    return { ok: true, player: next, drop, damage };
+  }
+
+  // Standing on a cell discovers it globally; the LoS from it is revealed to this character only.
+  private arrive(player: PlayerState, now: number): void {
+    this.discovery.markDiscovered(player.levelId, player.x, player.y, now);
+    if (this.reveals) this.reveals.markRevealed(player.levelId, losReveal(this, player.levelId, player), now);
+  }
+
+  /**
+   * Detect action: one roll per undetected secret within DETECT_RANGE (shares the move cooldown).
+   * roll01 returns a uniform number in [0, 1).
+   */
+  detect(
+    player: PlayerState,
+    cooldowns: CooldownState,
+    skill: number,
+    roll01: () => number
+  ): { ok: boolean; reason?: string; found?: SecretRef[] } {
+    const now = this.time.nowMs();
+    if (now < cooldowns.moveReadyAtMs) return { ok: false, reason: 'move_cooldown' };
+
+    const candidates = new Map<string, SecretRef>();
+    for (let y = player.y - DETECT_RANGE; y <= player.y + DETECT_RANGE; y++) {
+      for (let x = player.x - DETECT_RANGE; x <= player.x + DETECT_RANGE; x++) {
+        for (const dir of ['N', 'E', 'S', 'W'] as const) {
+          if (this.worldEdgeType(player.levelId, x, y, dir, 'visibility') !== 'lever_secret') continue;
+          const ref = leverRef(player.levelId, x, y, dir);
+          candidates.set(secretKey(ref), ref);
+        }
+        const c = this.connectors.markerAt(player.levelId, x, y);
+        if (c?.kind === 'chute') {
+          const ref: SecretRef = { kind: 'chute', levelId: player.levelId, x, y };
+          candidates.set(secretKey(ref), ref);
+        }
+      }
+    }
+
+    const chance = detectChance(skill);
+    const found: SecretRef[] = [];
+    for (const ref of candidates.values()) {
+      if (this.isDetected(ref)) continue;
+      if (roll01() < chance) found.push(ref);
+    }
+
+    if (found.length > 0) this.detection?.markDetected(found, now);
+    return { ok: true, found };
+  }
+
   turn(player: PlayerState, cooldowns: CooldownState, face: Dir): { ok: boolean; reason?: string; player?: PlayerState } {
     const now = this.time.nowMs();
     if (now < cooldowns.turnReadyAtMs) return { ok: false, reason: 'turn_cooldown' };
@@ -119,21 +436,36 @@ export class WorldEngine {
   view(player: PlayerState, cooldowns: CooldownState): WorldView {
     const now = this.time.nowMs();
 
-    // Visibility: reveal rays in all directions from the current cell.
-    const visibleCells = computeOmniRays(this, player, 3);
+    const visibleCells = this.visibleCells(player);
 
     // Minimap: discovered cells in radius, with edges computed WITHOUT triggering generation.
+    // Cells this character has only revealed (LoS) are flagged so the client can shade them.
+    const minimapCell = (x: number, y: number): MinimapCell => {
+      const cell: MinimapCell = {
+        x,
+        y,
+        edges: {
+          N: this.edgeType(player.levelId, x, y, 'N', 'minimap'),
+          E: this.edgeType(player.levelId, x, y, 'E', 'minimap'),
+          S: this.edgeType(player.levelId, x, y, 'S', 'minimap'),
+          W: this.edgeType(player.levelId, x, y, 'W', 'minimap')
+        }
+      };
+      const conn = this.markerAt(player.levelId, x, y);
+      if (conn) cell.objects = [conn];
+      return cell;
+    };
+
     const discovered = this.discovery.getDiscoveredInRadius(player.levelId, player.x, player.y, 12);
-    const minimapCells: MinimapCell[] = discovered.map((c) => ({
-      x: c.x,
-      y: c.y,
-      edges: {
-        N: this.edgeType(player.levelId, c.x, c.y, 'N', 'minimap'),
-        E: this.edgeType(player.levelId, c.x, c.y, 'E', 'minimap'),
-        S: this.edgeType(player.levelId, c.x, c.y, 'S', 'minimap'),
-        W: this.edgeType(player.levelId, c.x, c.y, 'W', 'minimap')
+    const minimapCells: MinimapCell[] = discovered.map((c) => minimapCell(c.x, c.y));
+
+    if (this.reveals) {
+      const seen = new Set(discovered.map((c) => `${c.x},${c.y}`));
+      for (const c of this.reveals.getRevealedInRadius(player.levelId, player.x, player.y, 12)) {
+        if (seen.has(`${c.x},${c.y}`)) continue;
+        minimapCells.push({ ...minimapCell(c.x, c.y), revealed: true });
       }
-    }));
+    }
 
     return {
       nowMs: now,
@@ -144,6 +476,13 @@ export class WorldEngine {
     };
   }
 
+  /**
+   * Visibility: reveal rays in all directions from the current cell (with in-range objects).
+   */
+  visibleCells(player: PlayerState): ViewCell[] {
+    return computeOmniRays(this, player, 3);
+  }
+
   stateHash(player: PlayerState, cooldowns: CooldownState): string {
     const view = this.view(player, cooldowns);
     const payload = {
@@ -155,6 +494,10 @@ export class WorldEngine {
   }
 }
 
+export function isTraversable(e: EdgeType): boolean {
+  return e === 'open' || e === 'door_unlocked' || e === 'lever_secret';
+}
+
 export function step(x: number, y: number, dir: Dir): { nx: number; ny: number } {
   if (dir === 'N') return { nx: x, ny: y - 1 };
   if (dir === 'S') return { nx: x, ny: y + 1 };
@@ -166,7 +509,7 @@ function oppositeOf(d: Dir): Dir {
   return d === 'N' ? 'S' : d === 'S' ? 'N' : d === 'E' ? 'W' : 'E';
 }
 
-function moveDirToAbs(face: Dir, moveDir: MoveDir): Dir {
+export function moveDirToAbs(face: Dir, moveDir: MoveDir): Dir {
   if (moveDir === 'F') return face;
   if (moveDir === 'B') return oppositeOf(face);
   return moveDir;
@@ -175,7 +518,7 @@ function moveDirToAbs(face: Dir, moveDir: MoveDir): Dir {
 function computeOmniRays(engine: WorldEngine, player: PlayerState, depth: number): ViewCell[] {
   const out = new Map<string, ViewCell>();
 
-  const addCell = (x: number, y: number) => {
+  const addCell = (x: number, y: number, dist: number) => {
     const k = `${x},${y}`;
     if (out.has(k)) return;
     const edges: Record<Dir, EdgeType> = {
@@ -184,10 +527,11 @@ function computeOmniRays(engine: WorldEngine, player: PlayerState, depth: number
       S: engine.edgeType(player.levelId, x, y, 'S', 'visibility'),
       W: engine.edgeType(player.levelId, x, y, 'W', 'visibility')
     };
-    out.set(k, { x, y, edges });
+    const objects = dist <= OBJECT_RANGE ? engine.featuresAt(player.levelId, x, y, 'visibility') : [];
+    out.set(k, { x, y, edges, objects });
   };
 
-  addCell(player.x, player.y);
+  addCell(player.x, player.y, 0);
 
   const dirs: Dir[] = ['N', 'E', 'S', 'W'];
   for (const dir of dirs) {
@@ -207,7 +551,7 @@ function computeOmniRays(engine: WorldEngine, player: PlayerState, depth: number
       cx = n.nx;
       cy = n.ny;
 
-      addCell(cx, cy);
+      addCell(cx, cy, d + 1);
     }
   }
 
@@ -0,0 +1,49 @@
+import fs from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { chunkEdgeSource, overlayEdgeSource, parseAscii, renderAscii } from '../src/ascii.js';
+import { generateChunkBsp } from '../src/maze.js';
+import type { Dir } from '../src/types.js';
+import type { EdgeOverride } from '../src/world.js';
+
+const REGION = { x: 20, y: 10, w: 24, h: 12 };
+
+function golden(name: string): string {
+  return fs.readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+describe('ascii maps', () => {
+  const chunk = generateChunkBsp(12345, 1, 0, 0);
+  const src = chunkEdgeSource(chunk);
+
+  test('chunk region matches golden render', () => {
+    expect(renderAscii(src, REGION)).toBe(golden('ascii-12345-1-0-0.txt'));
+    expect(renderAscii(src, REGION, { style: 'box' })).toBe(golden('ascii-12345-1-0-0.box.txt'));
+  });
+
+  test('parse(render) reproduces edges and rooms in both styles', () => {
+    for (const style of ['ascii', 'box'] as const) {
+      const map = parseAscii(renderAscii(src, REGION, { style }));
+      expect(map.rect).toEqual(REGION);
+      for (const e of map.edges) expect(e.edgeType).toBe(src.edgeType(e.x, e.y, e.dir));
+      for (const c of map.cells) expect(c.kind === 'room').toBe(src.isRoom!(c.x, c.y));
+    }
+  });
+
+  test('renders overlay rows with missing edges as walls', () => {
+    const rows = new Map<string, EdgeOverride>([
+      ['0,0,E', { edgeType: 'door_locked' }],
+      ['1,0,W', { edgeType: 'door_locked' }],
+      ['0,0,S', { edgeType: 'open' }],
+      ['0,1,N', { edgeType: 'open' }]
+    ]);
+    const overlay = { getEdgeOverride: (_l: number, x: number, y: number, dir: Dir) => rows.get(`${x},${y},${dir}`) ?? null };
+    const text = renderAscii(overlayEdgeSource(overlay, 1), { x: 0, y: 0, w: 2, h: 2 }, { header: false });
+    expect(text).toBe(['+-+-+', '|.L.|', '+ +-+', '|.| |', '+-+-+', ''].join('\n'));
+  });
+
+  test('rejects malformed grids', () => {
+    expect(() => parseAscii(['+-+', '|.|'])).toThrow(/odd number/);
+    expect(() => parseAscii(['+-+', '|x|', '+-+'])).toThrow(/bad cell glyph/);
+    expect(() => parseAscii(['+-+', '|.#', '+-+'])).toThrow(/bad edge glyph/);
+  });
+});
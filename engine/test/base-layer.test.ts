@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'vitest';
+import { ChunkCache, WorldEngine } from '../src/world.js';
+import { baseEdgeTypeFromChunk, generateChunkBsp } from '../src/maze.js';
+import type { Dir } from '../src/types.js';
+import type { EdgeOverride } from '../src/world.js';
+
+class MapOverlay {
+  readonly rows = new Map<string, EdgeOverride>();
+  set(levelId: number, x: number, y: number, dir: Dir, ov: EdgeOverride): void {
+    this.rows.set(`${levelId}:${x}:${y}:${dir}`, ov);
+  }
+  getEdgeOverride(levelId: number, x: number, y: number, dir: Dir): EdgeOverride | null {
+    return this.rows.get(`${levelId}:${x}:${y}:${dir}`) ?? null;
+  }
+}
+
+const noDiscovery = {
+  markDiscovered(): void {},
+  getDiscoveredInRadius(): Array<{ x: number; y: number }> {
+    return [];
+  }
+};
+
+const fixedTime = { nowMs: () => 1700000000000 };
+
+function mkEngine(overlay = new MapOverlay(), chunkCacheMax?: number) {
+  return new WorldEngine({ seed: 4242, overlay, discovery: noDiscovery, time: fixedTime, chunkCacheMax });
+}
+
+describe('base generation layer', () => {
+  test('edges without overrides fall through to the generated chunk', () => {
+    const eng = mkEngine();
+    const chunk = generateChunkBsp(4242, 2, 0, 0);
+
+    for (let y = 0; y < 63; y++) {
+      for (let x = 0; x < 63; x++) {
+        expect(eng.edgeType(2, x, y, 'E')).toBe(baseEdgeTypeFromChunk(chunk, x, y, 'E'));
+        expect(eng.edgeType(2, x, y, 'S')).toBe(baseEdgeTypeFromChunk(chunk, x, y, 'S'));
+      }
+    }
+  });
+
+  test('negative coordinates map into the correct chunk', () => {
+    const eng = mkEngine();
+    const chunk = generateChunkBsp(4242, 1, -1, -1);
+
+    expect(eng.edgeType(1, -64, -64, 'E')).toBe(baseEdgeTypeFromChunk(chunk, 0, 0, 'E'));
+    expect(eng.edgeType(1, -10, -3, 'S')).toBe(baseEdgeTypeFromChunk(chunk, 54, 61, 'S'));
+  });
+
+  test('overrides take precedence over the base layer', () => {
+    const overlay = new MapOverlay();
+    const eng = mkEngine(overlay);
+
+    const base = eng.edgeType(1, 5, 5, 'E');
+    const forced = base === 'wall' ? 'open' : 'wall';
+    overlay.set(1, 5, 5, 'E', { edgeType: forced });
+
+    expect(eng.edgeType(1, 5, 5, 'E')).toBe(forced);
+    expect(eng.baseEdgeType(1, 5, 5, 'E')).toBe(base);
+  });
+
+  test('base edges are symmetric, including across chunk borders', () => {
+    const eng = mkEngine();
+    for (let y = -3; y < 3; y++) {
+      for (let x = -70; x < 70; x++) {
+        expect(eng.edgeType(1, x, y, 'E')).toBe(eng.edgeType(1, x + 1, y, 'W'));
+        expect(eng.edgeType(1, x, y, 'S')).toBe(eng.edgeType(1, x, y + 1, 'N'));
+      }
+    }
+  });
+
+  test('chunk cache stays bounded', () => {
+    const cache = new ChunkCache(4242, 3);
+    for (let cx = 0; cx < 10; cx++) cache.get(1, cx, 0);
+    expect(cache.size).toBe(3);
+  });
+});
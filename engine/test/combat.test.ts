@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'vitest';
+import { attackTarget, COMBAT_TIMEOUT_MS, monsterAttack, provoke, rollDamage, stillInCombat } from '../src/combat.js';
+import type { CombatWorld } from '../src/combat.js';
+import { newMonster } from '../src/entities.js';
+import type { Entity, TickContext } from '../src/entities.js';
+import { monsterDef } from '../src/monsters.js';
+
+// Open floor, except a wall on the east side of (0,0).
+const world: CombatWorld & TickContext['world'] = {
+  canTraverseEdge: (_l, x, y, dir) => !(x === 0 && y === 0 && dir === 'E') && !(x === 1 && y === 0 && dir === 'W'),
+  connectorAt: () => null
+};
+
+function ctx(over: Partial<TickContext> = {}): TickContext {
+  return { world, nowMs: 1000, players: [], isOccupied: () => false, rng: () => 0.5, ...over };
+}
+
+function monster(defId: string, x: number, y: number, targetId: string | null = null): Entity {
+  const m = newMonster(`e_${defId}`, monsterDef(defId)!, { levelId: 3, x, y });
+  return { ...m, ai: { ...m.ai, targetId } };
+}
+
+describe('combat', () => {
+  test('damage rolls cover the inclusive range', () => {
+    expect(rollDamage([2, 6], () => 0)).toBe(2);
+    expect(rollDamage([2, 6], () => 0.999999)).toBe(6);
+    expect(rollDamage([3, 3], () => 0.5)).toBe(3);
+  });
+
+  test('players attack the faced neighbour through an open edge only', () => {
+    expect(attackTarget(world, { levelId: 3, x: 0, y: 0, face: 'S' })).toEqual({ levelId: 3, x: 0, y: 1 });
+    expect(attackTarget(world, { levelId: 3, x: 0, y: 0, face: 'E' })).toBeNull();
+  });
+
+  test('monsters hit their adjacent target, then wait out their attack interval', () => {
+    const players = [{ id: 'p', levelId: 3, x: 0, y: 0 }];
+    const hit = monsterAttack(monster('cave_spider', 0, 1, 'p'), ctx({ players }));
+    expect(hit).toMatchObject({ targetId: 'p', damage: 4 });
+    expect(hit!.entity.ai.attackReadyAtMs).toBe(1000 + monsterDef('cave_spider')!.attackIntervalMs);
+
+    expect(monsterAttack(hit!.entity, ctx({ players, nowMs: 1500 }))).toBeNull();
+    expect(monsterAttack(hit!.entity, ctx({ players, nowMs: 2000 }))).not.toBeNull();
+  });
+
+  test('no hit at range, through walls, across levels or without a target', () => {
+    const players = [{ id: 'p', levelId: 3, x: 0, y: 0 }];
+    expect(monsterAttack(monster('cave_spider', 0, 2, 'p'), ctx({ players }))).toBeNull();
+    expect(monsterAttack(monster('cave_spider', 1, 0, 'p'), ctx({ players }))).toBeNull();
+    expect(monsterAttack(monster('cave_spider', 0, 1, 'p'), ctx({ players: [{ ...players[0]!, levelId: 4 }] }))).toBeNull();
+    // A passive monster next to a player only fights back once provoked.
+    const rat = monster('rat', 0, 1);
+    expect(monsterAttack(rat, ctx({ players }))).toBeNull();
+    expect(monsterAttack(provoke(rat, 'p'), ctx({ players }))).toMatchObject({ targetId: 'p' });
+  });
+
+  test('combat ends once untargeted and not hit for the timeout', () => {
+    expect(stillInCombat(null, false, 5000)).toBe(false);
+    expect(stillInCombat(null, true, 5000)).toBe(true);
+    expect(stillInCombat(5000, false, 5000 + COMBAT_TIMEOUT_MS - 1)).toBe(true);
+    expect(stillInCombat(5000, false, 5000 + COMBAT_TIMEOUT_MS)).toBe(false);
+  });
+});
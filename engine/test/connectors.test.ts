@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'vitest';
+import { connectorAt, connectorsInChunk, fallDamage } from '../src/connectors.js';
+import { ChunkCache, WorldEngine } from '../src/world.js';
+
+const SEED = 2024;
+const cache = new ChunkCache(SEED, 32);
+const chunks = (l: number, cx: number, cy: number) => cache.get(l, cx, cy);
+
+function mkEngine(nowMs = 1000) {
+  return new WorldEngine({
+    seed: SEED,
+    overlay: { getEdgeOverride: () => null },
+    discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+    time: { nowMs: () => nowMs }
+  });
+}
+
+const ready = { moveReadyAtMs: 0, turnReadyAtMs: 0 };
+
+describe('level connectors', () => {
+  test('ladders are bidirectional between adjacent levels', () => {
+    let ladders = 0;
+    for (let cx = 0; cx < 6; cx++) {
+      for (const c of connectorsInChunk(SEED, 3, cx, 0, chunks)) {
+        if (c.kind !== 'ladder') continue;
+        ladders++;
+        expect(Math.abs(c.toLevelId - c.levelId)).toBe(1);
+        const back = connectorAt(SEED, c.toLevelId, c.toX, c.toY, chunks);
+        expect(back).toMatchObject({ kind: 'ladder', toLevelId: c.levelId, toX: c.x, toY: c.y });
+        expect(cache.isRoom(c.levelId, c.x, c.y)).toBe(true);
+      }
+    }
+    expect(ladders).toBeGreaterThan(0);
+  });
+
+  test('chutes are one-way and drop 1-3 levels', () => {
+    let chutes = 0;
+    for (let cx = 0; cx < 12; cx++) {
+      for (const c of connectorsInChunk(SEED, 2, cx, 1, chunks)) {
+        if (c.kind !== 'chute') continue;
+        chutes++;
+        expect(c.toLevelId - c.levelId).toBeGreaterThanOrEqual(1);
+        expect(c.toLevelId - c.levelId).toBeLessThanOrEqual(3);
+        expect(connectorAt(SEED, c.toLevelId, c.toX, c.toY, chunks)).toBeNull();
+      }
+    }
+    expect(chutes).toBeGreaterThan(0);
+  });
+
+  test('placement is deterministic and the town level has none', () => {
+    const other = new ChunkCache(SEED, 8);
+    const a = connectorsInChunk(SEED, 4, -2, 5, chunks);
+    const b = connectorsInChunk(SEED, 4, -2, 5, (l, cx, cy) => other.get(l, cx, cy));
+    expect(b).toEqual(a);
+    expect(connectorsInChunk(SEED, 0, 0, 0, chunks)).toEqual([]);
+  });
+
+  test('fall damage rules', () => {
+    expect(fallDamage(1, false)).toBeGreaterThan(0);
+    expect(fallDamage(3, false)).toBeGreaterThan(fallDamage(1, false));
+    expect(fallDamage(1, true)).toBe(0);
+    expect(fallDamage(2, true)).toBe(0);
+    expect(fallDamage(3, true)).toBeGreaterThan(0);
+  });
+
+  test('climb and jump move the player between levels', () => {
+    const eng = mkEngine();
+    let ladder = null;
+    let chute = null;
+    for (let cx = 0; cx < 12 && (!ladder || !chute); cx++) {
+      for (const c of connectorsInChunk(SEED, 2, cx, 0, chunks)) {
+        if (c.kind === 'ladder' && !ladder) ladder = c;
+        if (c.kind === 'chute' && !chute) chute = c;
+      }
+    }
+
+    const p = { levelId: 2, x: ladder!.x, y: ladder!.y, face: 'N' as const, hp: 10 };
+    const r = eng.climb(p, ready);
+    expect(r.player).toMatchObject({ levelId: ladder!.toLevelId, x: ladder!.toX, y: ladder!.toY, hp: 10 });
+    expect(eng.climb(p, { moveReadyAtMs: 5000, turnReadyAtMs: 0 }).reason).toBe('move_cooldown');
+    expect(eng.fall(p, ready, true).reason).toBe('no_chute');
+
+    const q = { levelId: 2, x: chute!.x, y: chute!.y, face: 'N' as const, hp: 10 };
+    const f = eng.fall(q, ready, false);
+    expect(f.player).toMatchObject({ levelId: chute!.toLevelId, x: chute!.toX, y: chute!.toY });
+    expect(f.damage).toBe(fallDamage(chute!.toLevelId - 2, false));
+    expect(f.player!.hp).toBe(10 - f.damage!);
+  });
+});
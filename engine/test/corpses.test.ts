@@ -0,0 +1,25 @@
+import { describe, expect, test } from 'vitest';
+import { CORPSE_PARTY_MS, CORPSE_PRIVATE_MS, corpseVisibleTo, corpseWindows } from '../src/corpses.js';
+
+describe('corpse chest visibility', () => {
+  test('in a party: owner, then party after 5 min, then everyone after 10 min', () => {
+    const w = corpseWindows(1000, true);
+    const at = (ms: number) => ({
+      owner: corpseVisibleTo(w, 'owner', 1000 + ms),
+      party: corpseVisibleTo(w, 'party', 1000 + ms),
+      other: corpseVisibleTo(w, 'other', 1000 + ms)
+    });
+
+    expect(at(0)).toEqual({ owner: true, party: false, other: false });
+    expect(at(CORPSE_PRIVATE_MS)).toEqual({ owner: true, party: true, other: false });
+    expect(at(CORPSE_PARTY_MS - 1)).toEqual({ owner: true, party: true, other: false });
+    expect(at(CORPSE_PARTY_MS)).toEqual({ owner: true, party: true, other: true });
+  });
+
+  test('solo: public as soon as the private window ends', () => {
+    const w = corpseWindows(1000, false);
+    expect(w.partyUntilMs).toBe(w.privateUntilMs);
+    expect(corpseVisibleTo(w, 'other', 1000 + CORPSE_PRIVATE_MS - 1)).toBe(false);
+    expect(corpseVisibleTo(w, 'other', 1000 + CORPSE_PRIVATE_MS)).toBe(true);
+  });
+});
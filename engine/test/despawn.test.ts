@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'vitest';
+import { catchUpDespawnTimer, DESPAWN_TIME_KEY_SEC, DESPAWN_TIME_SEC, despawnTimer, isNearPlayer } from '../src/despawn.js';
+import type { ProximityWorld } from '../src/despawn.js';
+import { DESPAWN_RADIUS_TILES } from '../src/regions.js';
+import { WorldEngine } from '../src/world.js';
+import type { Connector } from '../src/types.js';
+
+// Fixed connector list, filtered like WorldEngine.connectorsNear.
+function world(connectors: Connector[]): ProximityWorld {
+  return {
+    connectorsNear: (levelId, x, y, radius) =>
+      connectors.filter((c) => c.levelId === levelId && (c.x - x) ** 2 + (c.y - y) ** 2 <= radius * radius)
+  };
+}
+
+const ladder: Connector = { kind: 'ladder', levelId: 3, x: 10, y: 0, toLevelId: 4, toX: 10, toY: 0 };
+const ladderBack: Connector = { kind: 'ladder', levelId: 4, x: 10, y: 0, toLevelId: 3, toX: 10, toY: 0 };
+// Chute landings are not connectors: only the top end is listed.
+const chute: Connector = { kind: 'chute', levelId: 3, x: 0, y: 10, toLevelId: 5, toX: 40, toY: 40 };
+
+describe('despawn proximity', () => {
+  test('same level counts within the despawn radius only', () => {
+    const w = world([]);
+    const at = { levelId: 3, x: 0, y: 0 };
+    expect(isNearPlayer(w, at, [{ levelId: 3, x: DESPAWN_RADIUS_TILES, y: 0 }])).toBe(true);
+    expect(isNearPlayer(w, at, [{ levelId: 3, x: DESPAWN_RADIUS_TILES + 1, y: 0 }])).toBe(false);
+    expect(isNearPlayer(w, at, [{ levelId: 4, x: 0, y: 0 }])).toBe(false);
+  });
+
+  test('other levels count through a connector, distance on both sides summed', () => {
+    const w = world([ladder, ladderBack]);
+    // 10 tiles to the ladder, then 5 from its far end.
+    expect(isNearPlayer(w, { levelId: 3, x: 0, y: 0 }, [{ levelId: 4, x: 15, y: 0 }])).toBe(true);
+    // 10 + 9 > 18.
+    expect(isNearPlayer(w, { levelId: 3, x: 0, y: 0 }, [{ levelId: 4, x: 19, y: 0 }])).toBe(false);
+    // Two levels away: no single hop.
+    expect(isNearPlayer(w, { levelId: 3, x: 0, y: 0 }, [{ levelId: 5, x: 10, y: 0 }])).toBe(false);
+  });
+
+  test('chute landings count from the top end, whichever side the monster is on', () => {
+    const w = world([chute]);
+    expect(isNearPlayer(w, { levelId: 3, x: 0, y: 5 }, [{ levelId: 5, x: 41, y: 40 }])).toBe(true);
+    expect(isNearPlayer(w, { levelId: 5, x: 41, y: 40 }, [{ levelId: 3, x: 0, y: 5 }])).toBe(true);
+  });
+
+  test('engine lists generated connectors near a cell', () => {
+    const eng = new WorldEngine({
+      seed: 2024,
+      overlay: { getEdgeOverride: () => null },
+      discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+      time: { nowMs: () => 0 }
+    });
+
+    const all = eng.connectorsNear(3, 32, 32, 200);
+    expect(all.length).toBeGreaterThan(0);
+    const c = all[0]!;
+    expect(eng.connectorsNear(3, c.x, c.y, 0)).toEqual([c]);
+    expect(eng.connectorsNear(0, 0, 0, 200)).toEqual([]);
+  });
+});
+
+describe('despawn timer', () => {
+  test('starts when no player is near, 300 s for key-monsters', () => {
+    expect(despawnTimer(null, false, false, 1000)).toEqual({ despawnAtMs: 1000 + DESPAWN_TIME_SEC * 1000, expired: false });
+    expect(despawnTimer(null, false, true, 1000)).toEqual({ despawnAtMs: 1000 + DESPAWN_TIME_KEY_SEC * 1000, expired: false });
+  });
+
+  test('a returning player cancels it; otherwise it expires when due', () => {
+    expect(despawnTimer(5000, true, false, 4000)).toEqual({ despawnAtMs: null, expired: false });
+    expect(despawnTimer(5000, false, false, 4999)).toEqual({ despawnAtMs: 5000, expired: false });
+    expect(despawnTimer(5000, false, false, 5000)).toEqual({ despawnAtMs: 5000, expired: true });
+  });
+
+  test('offline catch-up starts idle timers at the pause and expires whatever ran out', () => {
+    const paused = 10_000;
+    const normal = paused + DESPAWN_TIME_SEC * 1000;
+    const key = paused + DESPAWN_TIME_KEY_SEC * 1000;
+
+    expect(catchUpDespawnTimer(null, false, paused, normal - 1)).toEqual({ despawnAtMs: normal, expired: false });
+    expect(catchUpDespawnTimer(null, false, paused, normal)).toEqual({ despawnAtMs: normal, expired: true });
+    expect(catchUpDespawnTimer(null, true, paused, normal)).toEqual({ despawnAtMs: key, expired: false });
+    // A timer already running keeps its deadline.
+    expect(catchUpDespawnTimer(paused + 5000, false, paused, paused + 5000)).toEqual({ despawnAtMs: paused + 5000, expired: true });
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, test } from 'vitest';
+import { detectChance, leverRef, secretKey } from '../src/detection.js';
+import type { DetectionProvider, SecretRef } from '../src/detection.js';
+import { connectorsInChunk } from '../src/connectors.js';
+import { ChunkCache, WorldEngine, step } from '../src/world.js';
+import type { Connector, Dir, PlayerState } from '../src/types.js';
+
+class MemDetection implements DetectionProvider {
+  readonly known = new Set<string>();
+  isDetected(ref: SecretRef): boolean {
+    return this.known.has(secretKey(ref));
+  }
+  markDetected(refs: SecretRef[]): void {
+    for (const r of refs) this.known.add(secretKey(r));
+  }
+}
+
+const SEED = 55;
+const cache = new ChunkCache(SEED, 32);
+const chunks = (l: number, cx: number, cy: number) => cache.get(l, cx, cy);
+const ready = { moveReadyAtMs: 0, turnReadyAtMs: 0 };
+
+function mkEngine(detection?: DetectionProvider) {
+  return new WorldEngine({
+    seed: SEED,
+    overlay: { getEdgeOverride: () => null },
+    detection,
+    discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+    time: { nowMs: () => 0 }
+  });
+}
+
+// A lever edge on level 1, found with an all-knowing engine.
+function findLever(): { x: number; y: number; dir: Dir } {
+  const eng = mkEngine();
+  for (let y = 0; y < 64; y++) {
+    for (let x = 0; x < 64 * 8; x++) {
+      for (const dir of ['E', 'S'] as const) {
+        if (eng.edgeType(1, x, y, dir) === 'lever_secret') return { x, y, dir };
+      }
+    }
+  }
+  throw new Error('no lever');
+}
+
+describe('secret detection', () => {
+  test('lever refs are the same from both sides', () => {
+    expect(leverRef(1, 5, 5, 'W')).toEqual(leverRef(1, 4, 5, 'E'));
+    expect(leverRef(1, 5, 5, 'N')).toEqual(leverRef(1, 5, 4, 'S'));
+    expect(detectChance(0)).toBe(0.25);
+    expect(detectChance(100)).toBe(0.95);
+  });
+
+  test('undetected levers read as walls until detected', () => {
+    const lever = findLever();
+    const det = new MemDetection();
+    const eng = mkEngine(det);
+
+    for (const purpose of ['movement', 'visibility', 'minimap'] as const) {
+      expect(eng.edgeType(1, lever.x, lever.y, lever.dir, purpose)).toBe('wall');
+    }
+    expect(eng.featuresAt(1, lever.x, lever.y).some((f) => f.kind === 'lever')).toBe(false);
+
+    const p: PlayerState = { levelId: 1, x: lever.x, y: lever.y, face: 'N', hp: 10 };
+    expect(eng.detect(p, { moveReadyAtMs: 5000, turnReadyAtMs: 0 }, 1, () => 0).reason).toBe('move_cooldown');
+    expect(eng.detect(p, ready, 1, () => 0.99).found).toEqual([]);
+
+    const r = eng.detect(p, ready, 1, () => 0);
+    expect(r.found).toContainEqual(leverRef(1, lever.x, lever.y, lever.dir));
+
+    // Two-way: visible from the far side as well.
+    const n = step(lever.x, lever.y, lever.dir);
+    const back: Dir = lever.dir === 'E' ? 'W' : 'N';
+    expect(eng.edgeType(1, lever.x, lever.y, lever.dir)).toBe('lever_secret');
+    expect(eng.edgeType(1, n.nx, n.ny, back, 'minimap')).toBe('lever_secret');
+    expect(eng.detect(p, ready, 1, () => 0).found).toEqual([]);
+  });
+
+  test('detected chutes are safe to step on and can be jumped', () => {
+    let chute: Connector | null = null;
+    for (let cx = 0; cx < 12 && !chute; cx++) {
+      chute = connectorsInChunk(SEED, 2, cx, 0, chunks).find((c) => c.kind === 'chute') ?? null;
+    }
+    expect(chute).not.toBeNull();
+
+    const det = new MemDetection();
+    const eng = mkEngine(det);
+    const p: PlayerState = { levelId: 2, x: chute!.x, y: chute!.y, face: 'N', hp: 10 };
+
+    expect(eng.featuresAt(2, p.x, p.y).some((f) => f.kind === 'chute')).toBe(false);
+    expect(eng.fall(p, ready, true).reason).toBe('no_chute');
+    expect(eng.fall(p, ready, false).ok).toBe(true);
+
+    eng.detect(p, ready, 1, () => 0);
+    expect(eng.featuresAt(2, p.x, p.y)).toContainEqual({ kind: 'chute', toLevelId: chute!.toLevelId });
+    expect(eng.fall(p, ready, false).reason).toBe('chute_detected');
+    expect(eng.fall(p, ready, true).ok).toBe(true);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, test } from 'vitest';
-import { generateChunkMaze } from '../src/maze.js';
+import { generateChunkBsp, generateChunkMaze } from '../src/maze.js';
 import { stableHash } from '../src/hash.js';
 
 describe('determinism', () => {
@@ -19,4 +19,11 @@ describe('determinism', () => {
 
     expect(stableHash(Array.from(a.east))).not.toBe(stableHash(Array.from(b.east)));
   });
+
+  test('generateChunkBsp output is pinned', () => {
+    // Changing these hashes changes every generated chunk: existing worlds would drift under their overlays.
+    const c = generateChunkBsp(12345, 1, 0, 0);
+    expect(stableHash(Array.from(c.east))).toBe('ec7c9903');
+    expect(stableHash(Array.from(c.south))).toBe('79117898');
+  });
 });
@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import { EGG_ATTACKED_LOCKOUT_MS, EGG_CHANNEL_MAX_MS, EGG_CHANNEL_MIN_MS, eggChannelMs, eggUseRefusal } from '../src/egg.js';
+import type { EggUser } from '../src/egg.js';
+
+const ready: EggUser = { hasEgg: true, inCombat: false, lastAttackedAtMs: null, stunned: false, immobilized: false };
+
+describe('egg of sanctuary', () => {
+  test('manual use needs an egg, no combat, no recent hit and free movement', () => {
+    expect(eggUseRefusal(ready, 1000)).toBeNull();
+    expect(eggUseRefusal({ ...ready, hasEgg: false }, 1000)).toBe('no_egg');
+    expect(eggUseRefusal({ ...ready, inCombat: true }, 1000)).toBe('in_combat');
+    expect(eggUseRefusal({ ...ready, stunned: true }, 1000)).toBe('stunned');
+    expect(eggUseRefusal({ ...ready, immobilized: true }, 1000)).toBe('immobilized');
+  });
+
+  test('a hit locks manual use out for 10 seconds, even after combat ended', () => {
+    const hit = { ...ready, lastAttackedAtMs: 5000 };
+    expect(eggUseRefusal(hit, 5000 + EGG_ATTACKED_LOCKOUT_MS - 1)).toBe('recently_attacked');
+    expect(eggUseRefusal(hit, 5000 + EGG_ATTACKED_LOCKOUT_MS)).toBeNull();
+  });
+
+  test('channel lasts 3 to 5 seconds', () => {
+    expect(eggChannelMs(() => 0)).toBe(EGG_CHANNEL_MIN_MS);
+    expect(eggChannelMs(() => 0.999999)).toBe(EGG_CHANNEL_MAX_MS);
+    expect(eggChannelMs(() => 0.5)).toBe(4000);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'vitest';
+import { newMonster, parseEntityAiState, serializeEntityAiState, tickEntity } from '../src/entities.js';
+import type { Entity, EntityWorld, TickContext } from '../src/entities.js';
+import { monsterDef } from '../src/monsters.js';
+import type { Connector } from '../src/types.js';
+
+// Open floor everywhere; optional connectors by cell.
+function openWorld(connectors: Connector[] = []): EntityWorld {
+  return {
+    canTraverseEdge: () => true,
+    connectorAt: (levelId, x, y) => connectors.find((c) => c.levelId === levelId && c.x === x && c.y === y) ?? null
+  };
+}
+
+// Deterministic rng cycling through fixed values.
+function seq(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length]!;
+}
+
+function ctx(over: Partial<TickContext> = {}): TickContext {
+  return { world: openWorld(), nowMs: 1000, players: [], isOccupied: () => false, rng: seq(0.9), ...over };
+}
+
+function monster(defId: string, x = 0, y = 0, levelId = 3): Entity {
+  return newMonster(`e_${defId}`, monsterDef(defId)!, { levelId, x, y });
+}
+
+describe('monster AI tick', () => {
+  test('waits for its move cooldown', () => {
+    const m = { ...monster('rat'), ai: { ...monster('rat').ai, moveReadyAtMs: 5000 } };
+    expect(tickEntity(m, ctx())).toBeNull();
+  });
+
+  test('aggressive monsters chase the nearest player in range and stop adjacent', () => {
+    let m: Entity = monster('cave_spider');
+    const players = [
+      { id: 'far', levelId: 3, x: 4, y: 3 },
+      { id: 'near', levelId: 3, x: 3, y: 0 },
+      { id: 'other_level', levelId: 4, x: 1, y: 0 }
+    ];
+
+    let now = 1000;
+    for (let i = 0; i < 5; i++) {
+      const next = tickEntity(m, ctx({ players, nowMs: now }));
+      if (next) m = next;
+      now += 1000;
+    }
+    expect(m.ai.targetId).toBe('near');
+    expect({ x: m.x, y: m.y }).toEqual({ x: 2, y: 0 });
+  });
+
+  test('passive monsters ignore players and roam within their home radius', () => {
+    let m: Entity = monster('rat');
+    const players = [{ id: 'p', levelId: 3, x: 1, y: 0 }];
+    const radius = monsterDef('rat')!.homeRadius;
+
+    let now = 1000;
+    const rng = seq(0.9, 0.1, 0.6, 0.3, 0.95, 0.7);
+    for (let i = 0; i < 200; i++) {
+      const next = tickEntity(m, ctx({ players, nowMs: now, rng }));
+      if (next) m = next;
+      now += 1000;
+      expect(m.ai.targetId).toBeNull();
+      expect(m.x * m.x + m.y * m.y).toBeLessThanOrEqual(radius * radius);
+    }
+  });
+
+  test('never steps into an occupied cell', () => {
+    const m = monster('cave_spider');
+    const players = [{ id: 'p', levelId: 3, x: 3, y: 0 }];
+    const r = tickEntity(m, ctx({ players, isOccupied: (_l, x, y) => (x === 1 && y === 0) || (x === 3 && y === 0) }));
+    // The only step that shortens the distance is occupied: the monster holds but picks up its target.
+    expect(r?.x).toBe(0);
+    expect(r?.ai.targetId).toBe('p');
+  });
+
+  test('takes connectors only within two levels of its spawn level', () => {
+    const down = (levelId: number): Connector => ({ kind: 'ladder', levelId, x: 0, y: 0, toLevelId: levelId + 1, toX: 5, toY: 5 });
+
+    const m = monster('rat');
+    const r = tickEntity(m, ctx({ world: openWorld([down(3)]), rng: seq(0.9, 0.01) }));
+    expect(r).toMatchObject({ levelId: 4, x: 5, y: 5, ai: { homeX: 5, homeY: 5 } });
+
+    const drifted = { ...monster('rat'), levelId: 5 };
+    const r2 = tickEntity(drifted, ctx({ world: openWorld([down(5)]), rng: seq(0.9, 0.01) }));
+    expect(r2?.levelId).toBe(5);
+  });
+
+  test('AI state round-trips through state_json', () => {
+    const ai = { homeX: -4, homeY: 9, moveReadyAtMs: 1234, attackReadyAtMs: 2000, targetId: 'c_1' };
+    expect(parseEntityAiState(serializeEntityAiState(ai), { x: 0, y: 0 })).toEqual(ai);
+    expect(parseEntityAiState('nope', { x: 2, y: 3 })).toEqual({ homeX: 2, homeY: 3, moveReadyAtMs: 0, attackReadyAtMs: 0, targetId: null });
+  });
+});
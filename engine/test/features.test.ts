@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'vitest';
+import { WorldEngine, step } from '../src/world.js';
+import type { CellFeature, Dir, PlayerState } from '../src/types.js';
+
+class MemFeatures {
+  readonly rows = new Map<string, CellFeature[]>();
+  getFeatures(levelId: number, x: number, y: number): CellFeature[] {
+    return this.rows.get(`${levelId}:${x}:${y}`) ?? [];
+  }
+}
+
+const ready = { moveReadyAtMs: 0, turnReadyAtMs: 0 };
+
+function mkEngine(features = new MemFeatures()) {
+  return new WorldEngine({
+    seed: 55,
+    overlay: { getEdgeOverride: () => null },
+    features,
+    discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+    time: { nowMs: () => 0 }
+  });
+}
+
+// First cell with 3 open edges in a row going east.
+function findStraight(eng: WorldEngine): PlayerState {
+  for (let y = 0; y < 64; y++) {
+    for (let x = 0; x < 64; x++) {
+      const dir: Dir = 'E';
+      let ok = true;
+      let cx = x;
+      for (let d = 0; d < 3 && ok; d++) {
+        ok = eng.edgeType(1, cx, y, dir) === 'open';
+        cx++;
+      }
+      if (ok) return { levelId: 1, x, y, face: 'E', hp: 10 };
+    }
+  }
+  throw new Error('no straight corridor');
+}
+
+describe('cell features', () => {
+  test('provider objects are visible up to 2 cells away', () => {
+    const features = new MemFeatures();
+    const eng = mkEngine(features);
+    const p = findStraight(eng);
+
+    const at = (n: number) => {
+      let c = { nx: p.x, ny: p.y };
+      for (let i = 0; i < n; i++) c = step(c.nx, c.ny, 'E');
+      return c;
+    };
+    for (const n of [1, 2, 3]) {
+      const c = at(n);
+      features.rows.set(`1:${c.nx}:${c.ny}`, [{ kind: 'chest', id: `c${n}`, locked: false }]);
+    }
+
+    const view = eng.view(p, ready);
+    const objectsAt = (n: number) => view.visibleCells.find((v) => v.x === at(n).nx && v.y === at(n).ny)!.objects;
+    expect(objectsAt(1)).toContainEqual({ kind: 'chest', id: 'c1', locked: false });
+    expect(objectsAt(2)).toContainEqual({ kind: 'chest', id: 'c2', locked: false });
+    expect(objectsAt(3)).toEqual([]);
+  });
+
+  test('lever edges and connectors are reported as features', () => {
+    const eng = mkEngine();
+    let lever: CellFeature[] | null = null;
+    for (let y = 0; y < 64 && !lever; y++) {
+      for (let x = 0; x < 64 * 8 && !lever; x++) {
+        const f = eng.featuresAt(1, x, y);
+        if (f.some((o) => o.kind === 'lever')) lever = f;
+      }
+    }
+    expect(lever).not.toBeNull();
+
+    let ladder: CellFeature[] | null = null;
+    for (let x = 0; x < 64 && !ladder; x++) {
+      for (let y = 0; y < 64 && !ladder; y++) {
+        const c = eng.connectorAt(2, x, y);
+        if (c?.kind === 'ladder') ladder = eng.featuresAt(2, x, y);
+      }
+    }
+    expect(ladder?.[0]).toMatchObject({ kind: 'ladder' });
+  });
+});
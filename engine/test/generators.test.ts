@@ -0,0 +1,49 @@
+import fs from 'node:fs';
+import { describe, expect, test } from 'vitest';
+import { CURRENT_GENERATOR_VERSION, getGenerator, listGeneratorVersions } from '../src/generators.js';
+import { stableHash } from '../src/hash.js';
+import { WorldEngine } from '../src/world.js';
+
+// Golden hashes per generator version. NEVER update an existing version's hashes:
+// a mismatch means that version drifted (I1/I6). Register a new version instead.
+type GoldenCase = { seed: number; levelId: number; chunkX: number; chunkY: number; hash: string };
+const golden = JSON.parse(
+  fs.readFileSync(new URL('./fixtures/generator-golden.json', import.meta.url), 'utf8')
+) as Record<string, GoldenCase[]>;
+
+describe('generator registry', () => {
+  test('current version is registered', () => {
+    expect(getGenerator(CURRENT_GENERATOR_VERSION).version).toBe(CURRENT_GENERATOR_VERSION);
+  });
+
+  test('unknown versions are rejected', () => {
+    expect(() => getGenerator('nope_v0')).toThrow(/unknown generator_version/);
+    expect(
+      () =>
+        new WorldEngine({
+          seed: 1,
+          generatorVersion: 'nope_v0',
+          overlay: { getEdgeOverride: () => null },
+          discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+          time: { nowMs: () => 0 }
+        })
+    ).toThrow(/unknown generator_version/);
+  });
+
+  test('every registered version has golden fixtures', () => {
+    for (const v of listGeneratorVersions()) {
+      expect(golden[v]?.length ?? 0).toBeGreaterThan(0);
+    }
+  });
+
+  for (const [version, cases] of Object.entries(golden)) {
+    test(`${version} output matches golden hashes`, () => {
+      const gen = getGenerator(version);
+      for (const c of cases) {
+        const chunk = gen.generateChunk(c.seed, c.levelId, c.chunkX, c.chunkY);
+        const h = stableHash({ east: Array.from(chunk.east), south: Array.from(chunk.south), room: Array.from(chunk.room) });
+        expect({ ...c, hash: h }).toEqual(c);
+      }
+    });
+  }
+});
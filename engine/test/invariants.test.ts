@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'vitest';
+import { checkChunkWindow, checkInvariants } from '../src/invariants.js';
+import type { EdgeSource } from '../src/invariants.js';
+import type { Dir, EdgeType } from '../src/types.js';
+
+/** Tiny grid source: edges default to wall; set() writes one side only (so asymmetry is testable). */
+function gridSource(rooms: Array<[number, number]> = []) {
+  const edges = new Map<string, EdgeType>();
+  const roomSet = new Set(rooms.map(([x, y]) => `${x},${y}`));
+  const src: EdgeSource & { set: (x: number, y: number, d: Dir, e: EdgeType, both?: boolean) => void } = {
+    edgeType: (x, y, d) => edges.get(`${x},${y},${d}`) ?? 'wall',
+    isRoom: (x, y) => roomSet.has(`${x},${y}`),
+    set(x, y, d, e, both = true) {
+      edges.set(`${x},${y},${d}`, e);
+      if (!both) return;
+      const nx = d === 'E' ? x + 1 : d === 'W' ? x - 1 : x;
+      const ny = d === 'S' ? y + 1 : d === 'N' ? y - 1 : y;
+      const od: Dir = d === 'E' ? 'W' : d === 'W' ? 'E' : d === 'N' ? 'S' : 'N';
+      edges.set(`${nx},${ny},${od}`, e);
+    }
+  };
+  return src;
+}
+
+const RECT = { x: 0, y: 0, w: 8, h: 8 };
+
+describe('maze invariants', () => {
+  test('generated chunk windows have no violations', () => {
+    for (const seed of [1, 77, 9001]) {
+      const r = checkChunkWindow(seed, 1, -1, -1, 2, 2);
+      expect(r.violations).toEqual([]);
+      expect(r.carvedCells).toBeGreaterThan(0);
+    }
+  });
+
+  test('a sealed component with one lever is a valid pocket', () => {
+    const src = gridSource();
+    src.set(0, 0, 'E', 'open');
+    src.set(1, 0, 'E', 'open');
+    src.set(3, 0, 'E', 'open');
+    src.set(2, 0, 'E', 'lever_secret');
+
+    const r = checkInvariants(src, RECT, { origin: { x: 0, y: 0 } });
+    expect(r.pockets).toBe(1);
+    expect(r.violations).toEqual([]);
+  });
+
+  test('reports unreachable cells and pockets with several levers', () => {
+    const src = gridSource();
+    src.set(0, 0, 'E', 'open');
+    src.set(5, 5, 'E', 'open'); // isolated pair
+
+    src.set(0, 0, 'S', 'lever_secret');
+    src.set(0, 1, 'E', 'open');
+    src.set(1, 1, 'S', 'lever_secret');
+    src.set(1, 2, 'W', 'open');
+    src.set(0, 2, 'N', 'open'); // makes (0,1),(1,1),(0,2),(1,2) one component with two levers
+
+    const r = checkInvariants(src, RECT, { origin: { x: 0, y: 0 } });
+    const kinds = r.violations.map((v) => v.kind).sort();
+    expect(kinds).toContain('unreachable');
+    expect(kinds).toContain('pocket_exits');
+  });
+
+  test('reports asymmetric edges and doors off room boundaries', () => {
+    const src = gridSource([[2, 2]]);
+    src.set(0, 0, 'E', 'open', false);
+    src.set(2, 2, 'E', 'door_unlocked'); // room -> corridor: fine
+    src.set(4, 4, 'E', 'door_unlocked'); // corridor -> corridor: violation
+
+    const r = checkInvariants(src, RECT);
+    expect(r.violations).toContainEqual({ kind: 'asymmetric_edge', x: 0, y: 0, dir: 'E', a: 'open', b: 'wall' });
+    expect(r.violations).toContainEqual({ kind: 'door_off_room_boundary', x: 4, y: 4, dir: 'E', edgeType: 'door_unlocked' });
+    expect(r.violations.filter((v) => v.kind === 'door_off_room_boundary')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, test } from 'vitest';
+import {
+  applyChestLockAction,
+  applyDoorLockAction,
+  canOpenChest,
+  canTraverseDoor,
+  doorEdgeType,
+  lockedDoor,
+  parseDoorLockState,
+  serializeDoorLockState
+} from '../src/locks.js';
+import { WorldEngine } from '../src/world.js';
+import type { EdgeOverride } from '../src/world.js';
+
+describe('door lock state machine', () => {
+  test('D1: lockpick needs skill >= difficulty', () => {
+    const s = lockedDoor(5);
+    expect(applyDoorLockAction(s, { kind: 'lockpick', skill: 4 })).toEqual({ ok: false, reason: 'skill_too_low' });
+    const r = applyDoorLockAction(s, { kind: 'lockpick', skill: 5 });
+    expect(r).toMatchObject({ ok: true, changed: true, reason: 'lockpicked', state: { locked: false } });
+    if (r.ok) expect(applyDoorLockAction(r.state, { kind: 'lockpick', skill: 99 })).toEqual({ ok: false, reason: 'not_locked' });
+  });
+
+  test('D2/D3: only the linked key-monster unlocks, on death or despawn', () => {
+    const s = lockedDoor(3, 'e_key');
+    expect(applyDoorLockAction(s, { kind: 'key_monster_killed', entityId: 'e_other' })).toEqual({ ok: false, reason: 'not_key_monster' });
+    expect(applyDoorLockAction(lockedDoor(3), { kind: 'key_monster_killed', entityId: 'e_key' }).ok).toBe(false);
+    expect(applyDoorLockAction(s, { kind: 'key_monster_killed', entityId: 'e_key' })).toMatchObject({
+      ok: true,
+      reason: 'key_monster_killed',
+      state: { locked: false }
+    });
+    expect(applyDoorLockAction(s, { kind: 'key_monster_despawned', entityId: 'e_key' })).toMatchObject({
+      ok: true,
+      reason: 'key_monster_despawned',
+      state: { locked: false }
+    });
+  });
+
+  test('D4: key-monster passes a locked door, players do not', () => {
+    const s = lockedDoor(3, 'e_key');
+    expect(canTraverseDoor(s)).toBe(false);
+    expect(canTraverseDoor(s, 'e_other')).toBe(false);
+    expect(canTraverseDoor(s, 'e_key')).toBe(true);
+    expect(canTraverseDoor({ ...s, locked: false })).toBe(true);
+    expect(doorEdgeType(s)).toBe('door_locked');
+  });
+
+  test('admin override sets any field and reports no-ops', () => {
+    const s = lockedDoor(3);
+    const r = applyDoorLockAction(s, { kind: 'admin', locked: false, keyMonsterEntityId: 'e_1' });
+    expect(r).toMatchObject({ ok: true, changed: true, reason: 'admin_override', state: { locked: false, lockDifficulty: 3, keyMonsterEntityId: 'e_1' } });
+    expect(applyDoorLockAction(s, { kind: 'admin', lockDifficulty: 3 })).toMatchObject({ ok: true, changed: false });
+  });
+
+  test('lock_state_json round-trips', () => {
+    const s = lockedDoor(7, 'e_9');
+    expect(parseDoorLockState(serializeDoorLockState(s))).toEqual(s);
+    expect(parseDoorLockState('{"nope":1}')).toBeNull();
+    expect(parseDoorLockState('not json')).toBeNull();
+  });
+
+  test('engine reads stored lock state over the generated door', () => {
+    const overrides = new Map<string, EdgeOverride>();
+    const eng = new WorldEngine({
+      seed: 1,
+      overlay: { getEdgeOverride: (l, x, y, d) => overrides.get(`${l}:${x}:${y}:${d}`) ?? null },
+      discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+      time: { nowMs: () => 0 }
+    });
+
+    overrides.set('12:0:0:E', { edgeType: 'door_locked', lockDifficulty: 9, keyMonsterEntityId: 'e_k' });
+    overrides.set('12:0:0:S', { edgeType: 'door_locked' });
+    overrides.set('12:0:0:N', { edgeType: 'wall' });
+
+    expect(eng.doorLockAt(12, 0, 0, 'E')).toEqual(lockedDoor(9, 'e_k'));
+    // Generated locked door: difficulty from the depth profile.
+    expect(eng.doorLockAt(12, 0, 0, 'S')).toEqual(lockedDoor(8));
+    expect(eng.doorLockAt(12, 0, 0, 'N')).toBeNull();
+  });
+
+  test('D4: only the key-monster crosses a locked door edge', () => {
+    const overrides = new Map<string, EdgeOverride>([['12:0:0:E', { edgeType: 'door_locked', lockDifficulty: 9, keyMonsterEntityId: 'e_k' }]]);
+    const eng = new WorldEngine({
+      seed: 1,
+      overlay: { getEdgeOverride: (l, x, y, d) => overrides.get(`${l}:${x}:${y}:${d}`) ?? null },
+      discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+      time: { nowMs: () => 0 }
+    });
+
+    expect(eng.canTraverseEdge(12, 0, 0, 'E', 'minimap')).toBe(false);
+    expect(eng.canTraverseEdge(12, 0, 0, 'E', 'minimap', 'e_other')).toBe(false);
+    expect(eng.canTraverseEdge(12, 0, 0, 'E', 'minimap', 'e_k')).toBe(true);
+    expect(eng.canTraverse(12, 0, 0, 'E', 'F', 'e_k')).toBe(true);
+    expect(eng.canTraverse(12, 0, 0, 'E', 'F')).toBe(false);
+  });
+});
+
+describe('chest lock state machine', () => {
+  const chest = { locked: true, lockDifficulty: 4, keyMonsterEntityId: 'e_key' };
+
+  test('C1/C2: lockpick with enough skill or kill the key-monster', () => {
+    expect(applyChestLockAction(chest, { kind: 'lockpick', skill: 3 })).toEqual({ ok: false, reason: 'skill_too_low' });
+    expect(applyChestLockAction(chest, { kind: 'lockpick', skill: 4 })).toMatchObject({ ok: true, reason: 'lockpicked', state: { locked: false } });
+    expect(applyChestLockAction(chest, { kind: 'key_monster_killed', entityId: 'e_key' })).toMatchObject({
+      ok: true,
+      reason: 'key_monster_killed',
+      state: { locked: false }
+    });
+  });
+
+  test('C3/C4: despawn keeps the chest locked; locked chests cannot be opened', () => {
+    expect(applyChestLockAction(chest, { kind: 'key_monster_despawned', entityId: 'e_key' })).toEqual({ ok: false, reason: 'no_effect' });
+    expect(canOpenChest(chest)).toBe(false);
+    expect(canOpenChest({ ...chest, locked: false })).toBe(true);
+  });
+});
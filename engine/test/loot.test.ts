@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'vitest';
+import { chestQuota, chestTrapDamage, depthTier, planChestSpawns } from '../src/loot.js';
+import { activeChunks } from '../src/regions.js';
+import { WorldEngine } from '../src/world.js';
+
+const SEED = 77;
+
+function mkEngine() {
+  return new WorldEngine({
+    seed: SEED,
+    overlay: { getEdgeOverride: () => null },
+    discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+    time: { nowMs: () => 0 }
+  });
+}
+
+describe('loot chests', () => {
+  test('depth tiers and quotas scale with level; the town has none', () => {
+    expect(depthTier(1)).toBe(0);
+    expect(depthTier(6)).toBe(1);
+    expect(depthTier(100)).toBe(4);
+    expect(chestQuota(0)).toBe(0);
+    expect(chestQuota(1)).toBe(1);
+    expect(chestQuota(25)).toBeGreaterThan(chestQuota(1));
+    expect(chestTrapDamage('blast', 3)).toBeGreaterThan(chestTrapDamage('blast', 0));
+  });
+
+  test('spawn cells are room cells without connectors', () => {
+    const eng = mkEngine();
+    const cells = eng.chestSpawnCells(1, 0, 0);
+    expect(cells.length).toBeGreaterThan(0);
+    for (const c of cells) {
+      expect(eng.baseIsRoom(1, c.x, c.y)).toBe(true);
+      expect(eng.connectorAt(1, c.x, c.y)).toBeNull();
+    }
+    expect(eng.chestSpawnCells(0, 0, 0)).toEqual([]);
+  });
+
+  test('a check is deterministic per check index and respects the free slots', () => {
+    const cells = mkEngine().chestSpawnCells(3, 1, -1);
+    const a = planChestSpawns(SEED, 3, 1, -1, 42, 2, cells);
+    const b = planChestSpawns(SEED, 3, 1, -1, 42, 2, cells);
+    expect(a).toEqual(b);
+    expect(a.length).toBeGreaterThanOrEqual(1);
+    expect(a.length).toBeLessThanOrEqual(2);
+
+    for (let i = 0; i < 50; i++) {
+      expect(planChestSpawns(SEED, 3, 1, -1, i, 1, cells).length).toBe(1);
+      expect(planChestSpawns(SEED, 3, 1, -1, i, 0, cells)).toEqual([]);
+    }
+    expect(planChestSpawns(SEED, 3, 1, -1, 0, 1, [])).toEqual([]);
+  });
+
+  test('contents, traps and locks scale with depth', () => {
+    const cells = [{ x: 5, y: 5 }];
+    const roll = (levelId: number) => Array.from({ length: 200 }, (_, i) => planChestSpawns(SEED, levelId, 0, 0, i, 1, cells)[0]!);
+
+    const shallow = roll(1);
+    const deep = roll(21);
+    const gold = (xs: typeof shallow) => xs.reduce((n, c) => n + c.items.find((it) => it.itemId === 'gold')!.qty, 0);
+
+    expect(gold(deep)).toBeGreaterThan(gold(shallow));
+    expect(deep.filter((c) => c.locked).length).toBeGreaterThan(shallow.filter((c) => c.locked).length);
+    expect(deep.every((c) => c.depthTier === 4 && c.lockDifficulty === 9)).toBe(true);
+    for (const c of [...shallow, ...deep]) expect(c.trapped).toBe(c.trapType !== null);
+  });
+});
+
+describe('active regions', () => {
+  test('chunks touched by the player circle, deduplicated per level', () => {
+    const keys = (ps: Array<{ levelId: number; x: number; y: number }>) =>
+      activeChunks(ps)
+        .map((k) => `${k.levelId}:${k.chunkX}:${k.chunkY}`)
+        .sort();
+
+    expect(keys([{ levelId: 1, x: 32, y: 32 }])).toEqual(['1:0:0']);
+    expect(keys([{ levelId: 1, x: 0, y: 0 }])).toEqual(['1:-1:-1', '1:-1:0', '1:0:-1', '1:0:0']);
+    expect(keys([{ levelId: 1, x: 32, y: 32 }, { levelId: 1, x: 33, y: 30 }, { levelId: 2, x: 32, y: 32 }])).toEqual([
+      '1:0:0',
+      '2:0:0'
+    ]);
+
+    // Corner chunk is outside the radius even though its bounding box overlaps.
+    expect(keys([{ levelId: 1, x: 44, y: 44 }]).includes('1:1:1')).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'vitest';
+import { findPath, findPathDiscovered } from '../src/pathfind.js';
+import { WorldEngine, step } from '../src/world.js';
+import type { Dir } from '../src/types.js';
+import type { EdgeQueryPurpose } from '../src/world.js';
+
+function mkEngine(onQuery?: (purpose: EdgeQueryPurpose | undefined) => void) {
+  return new WorldEngine({
+    seed: 4242,
+    overlay: {
+      getEdgeOverride: (_l: number, _x: number, _y: number, _d: Dir, purpose?: EdgeQueryPurpose) => {
+        onQuery?.(purpose);
+        return null;
+      }
+    },
+    discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+    time: { nowMs: () => 0 }
+  });
+}
+
+// Two room cells in chunk (0,0) of level 1, far apart.
+function endpoints(eng: WorldEngine) {
+  const rooms: Array<{ x: number; y: number }> = [];
+  for (let y = 0; y < 64; y++) for (let x = 0; x < 64; x++) if (eng.baseIsRoom(1, x, y)) rooms.push({ x, y });
+  return { from: rooms[0]!, to: rooms[rooms.length - 1]! };
+}
+
+describe('pathfinding', () => {
+  test('returns a traversable shortest-style path to the goal', () => {
+    const eng = mkEngine();
+    const { from, to } = endpoints(eng);
+    const r = findPath(eng, 1, from, to);
+    expect(r.ok).toBe(true);
+    if (!r.ok) return;
+
+    let cur = from;
+    for (const s of r.steps) {
+      expect(eng.canTraverseEdge(1, cur.x, cur.y, s.dir)).toBe(true);
+      const n = step(cur.x, cur.y, s.dir);
+      expect({ x: n.nx, y: n.ny }).toEqual({ x: s.x, y: s.y });
+      cur = s;
+    }
+    expect({ x: cur.x, y: cur.y }).toEqual(to);
+    expect(r.steps.length).toBeGreaterThanOrEqual(Math.abs(to.x - from.x) + Math.abs(to.y - from.y));
+  });
+
+  test('queries use the minimap purpose by default', () => {
+    const seen = new Set<EdgeQueryPurpose | undefined>();
+    const eng = mkEngine((p) => seen.add(p));
+    const { from, to } = endpoints(eng);
+    findPath(eng, 1, from, to);
+    expect([...seen]).toEqual(['minimap']);
+  });
+
+  test('budget and unreachable goals', () => {
+    const eng = mkEngine();
+    const { from, to } = endpoints(eng);
+    expect(findPath(eng, 1, from, to, { maxExpanded: 3 })).toMatchObject({ ok: false, reason: 'budget_exhausted' });
+
+    // A goal enclosed by walls on all sides (solid cell) is never reachable; bound the
+    // (otherwise infinite) search to one chunk so it terminates with no_path.
+    let solid = { x: 0, y: 0 };
+    for (let x = 0; x < 64; x++) {
+      if ((['N', 'E', 'S', 'W'] as const).every((d) => eng.edgeType(1, x, 0, d) === 'wall')) {
+        solid = { x, y: 0 };
+        break;
+      }
+    }
+    const inChunk = (x: number, y: number) => x >= 0 && y >= 0 && x < 64 && y < 64;
+    expect(findPath(eng, 1, from, solid, { maxExpanded: 100000, allowCell: inChunk })).toMatchObject({ ok: false, reason: 'no_path' });
+  });
+
+  test('discovered-only variant stays on known cells', () => {
+    const eng = mkEngine();
+    const { from, to } = endpoints(eng);
+    const full = findPath(eng, 1, from, to);
+    if (!full.ok) throw new Error('expected a path');
+
+    const known = [from, ...full.steps];
+    const discovery = { markDiscovered: () => {}, getDiscoveredInRadius: () => known.map((c) => ({ x: c.x, y: c.y })) };
+    const r = findPathDiscovered(eng, discovery, 1, from, to);
+    expect(r.ok && r.steps.every((s) => known.some((k) => k.x === s.x && k.y === s.y))).toBe(true);
+
+    const partial = { markDiscovered: () => {}, getDiscoveredInRadius: () => known.slice(0, 3).map((c) => ({ x: c.x, y: c.y })) };
+    expect(findPathDiscovered(eng, partial, 1, from, to)).toMatchObject({ ok: false, reason: 'no_path' });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, test } from 'vitest';
+import { baseEdgeTypeFromChunk, generateChunkBsp } from '../src/maze.js';
+import type { ChunkEdges, Dir } from '../src/types.js';
+
+const LEVER = 3;
+
+function findPocketChunk(): ChunkEdges {
+  for (let cx = 0; cx < 32; cx++) {
+    const chunk = generateChunkBsp(31337, 1, cx, 0);
+    if (chunk.east.includes(LEVER) || chunk.south.includes(LEVER)) return chunk;
+  }
+  throw new Error('no pocket in 32 chunks');
+}
+
+const DIRS: Array<[Dir, number, number]> = [
+  ['N', 0, -1],
+  ['E', 1, 0],
+  ['S', 0, 1],
+  ['W', -1, 0]
+];
+
+describe('secret pockets', () => {
+  test('at most one lever edge per chunk', () => {
+    for (let cx = 0; cx < 16; cx++) {
+      const chunk = generateChunkBsp(31337, 1, cx, 0);
+      const levers = [...chunk.east, ...chunk.south].filter((v) => v === LEVER).length;
+      expect(levers).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test('lever round-trips through baseEdgeTypeFromChunk from both sides', () => {
+    const chunk = findPocketChunk();
+    const ei = chunk.east.indexOf(LEVER);
+    const si = chunk.south.indexOf(LEVER);
+
+    if (ei >= 0) {
+      const x = ei % 64;
+      const y = Math.floor(ei / 64);
+      expect(baseEdgeTypeFromChunk(chunk, x, y, 'E')).toBe('lever_secret');
+      expect(baseEdgeTypeFromChunk(chunk, x + 1, y, 'W')).toBe('lever_secret');
+    } else {
+      const x = si % 64;
+      const y = Math.floor(si / 64);
+      expect(baseEdgeTypeFromChunk(chunk, x, y, 'S')).toBe('lever_secret');
+      expect(baseEdgeTypeFromChunk(chunk, x, y + 1, 'N')).toBe('lever_secret');
+    }
+  });
+
+  test('pocket is sealed except for its single lever edge', () => {
+    const chunk = findPocketChunk();
+    const ei = chunk.east.indexOf(LEVER);
+    const si = chunk.south.indexOf(LEVER);
+    const i = ei >= 0 ? ei : si;
+    const x = i % 64;
+    const y = Math.floor(i / 64);
+
+    // One side of the lever is the pocket: flood each side without crossing the lever.
+    const other = ei >= 0 ? { x: x + 1, y } : { x, y: y + 1 };
+    const flood = (sx: number, sy: number) => {
+      const seen = new Set<string>([`${sx},${sy}`]);
+      const q: Array<[number, number]> = [[sx, sy]];
+      let levers = 0;
+      while (q.length) {
+        const [cx, cy] = q.shift()!;
+        for (const [d, dx, dy] of DIRS) {
+          const e = baseEdgeTypeFromChunk(chunk, cx, cy, d);
+          if (e === 'wall') continue;
+          if (e === 'lever_secret') {
+            levers++;
+            continue;
+          }
+          const k = `${cx + dx},${cy + dy}`;
+          if (seen.has(k)) continue;
+          seen.add(k);
+          q.push([cx + dx, cy + dy]);
+        }
+      }
+      return { size: seen.size, levers };
+    };
+
+    const a = flood(x, y);
+    const b = flood(other.x, other.y);
+    const pocket = a.size < b.size ? a : b;
+
+    expect(pocket.size).toBeGreaterThanOrEqual(4);
+    expect(pocket.size).toBeLessThanOrEqual(16);
+    expect(pocket.levers).toBe(1);
+  });
+});
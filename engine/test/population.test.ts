@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'vitest';
+import { DENSITY_CAP, planPopulation, populationLimits } from '../src/population.js';
+import type { PopulationInput, PopulationWorld } from '../src/population.js';
+import { MONSTER_DEFS, pickMonsterDef } from '../src/monsters.js';
+import { step } from '../src/world.js';
+import type { Dir } from '../src/types.js';
+
+// Open floor everywhere, or only the cells in `floor` (everything else is solid rock).
+function world(floor?: Set<string>): PopulationWorld {
+  const isFloor = (x: number, y: number) => !floor || floor.has(`${x},${y}`);
+  const open = (x: number, y: number, dir: Dir) => {
+    const { nx, ny } = step(x, y, dir);
+    return isFloor(x, y) && isFloor(nx, ny);
+  };
+  return {
+    canTraverseEdge: (_l, x, y, dir) => open(x, y, dir),
+    edgeType: (_l, x, y, dir) => (open(x, y, dir) ? 'open' : 'wall')
+  };
+}
+
+// North-south corridor through the player at (0,0).
+const corridor = new Set(Array.from({ length: 25 }, (_, i) => `0,${i - 12}`));
+
+function seq(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length]!;
+}
+
+function input(over: Partial<PopulationInput> = {}): PopulationInput {
+  return {
+    world: world(),
+    levelId: 3,
+    players: [{ x: 0, y: 0 }],
+    population: 0,
+    nearby: [],
+    isOccupied: () => false,
+    rng: seq(0.37, 0.81, 0.12, 0.66, 0.93, 0.05),
+    ...over
+  };
+}
+
+describe('population controller', () => {
+  test('target and max scale with active players', () => {
+    expect(populationLimits(0)).toEqual({ target: 0, max: 0 });
+    expect(populationLimits(1)).toEqual({ target: 6, max: 9 });
+    expect(populationLimits(3)).toEqual({ target: 14, max: 21 });
+  });
+
+  test('skips empty, full and over-full levels', () => {
+    expect(planPopulation(input({ players: [] }))).toMatchObject({ action: 'skip', reason: 'no_players' });
+    expect(planPopulation(input({ population: 6 }))).toMatchObject({ action: 'skip', reason: 'at_target' });
+    expect(planPopulation(input({ population: 9 }))).toMatchObject({ action: 'skip', reason: 'at_max' });
+    expect(planPopulation(input({ levelId: 0 }))).toMatchObject({ action: 'skip', reason: 'no_def' });
+  });
+
+  test('spawns below target on a free floor cell in the active region', () => {
+    // Constant rng: every candidate is the player's cell offset by (+10, +10), off both sight lines.
+    const d = planPopulation(input({ rng: () => 0.7 }));
+    expect(d).toMatchObject({ action: 'spawn', x: 10, y: 10 });
+    if (d.action === 'spawn') expect(MONSTER_DEFS.some((m) => m.defId === d.defId)).toBe(true);
+
+    expect(planPopulation(input({ rng: () => 0.7, isOccupied: (x, y) => x === 10 && y === 10 }))).toMatchObject({
+      action: 'skip',
+      reason: 'no_cell',
+      rejected: { occupied: 24 }
+    });
+  });
+
+  test('rejects samples outside the circle, solid rock, cells in line of sight and crowded cells', () => {
+    expect(planPopulation(input({ world: world(corridor), rng: () => 0.7 }))).toMatchObject({
+      reason: 'no_cell',
+      rejected: { solid: 24 }
+    });
+
+    // rng cycle (def, player, dx, dy...): candidate (0,5), down the corridor from the player.
+    expect(planPopulation(input({ world: world(corridor), rng: seq(0.6, 0, 0.5) }))).toMatchObject({
+      reason: 'no_cell',
+      rejected: { visible: 24 }
+    });
+
+    // Constant 0: every sample is the (-24, -24) corner, outside the circle; the tries still run out.
+    expect(planPopulation(input({ rng: () => 0 }))).toMatchObject({
+      reason: 'no_cell',
+      rejected: { outside: 24 }
+    });
+
+    const crowd = Array.from({ length: DENSITY_CAP }, () => ({ x: 10, y: 11 }));
+    expect(planPopulation(input({ nearby: crowd, rng: () => 0.7 }))).toMatchObject({
+      reason: 'no_cell',
+      rejected: { density: 24 }
+    });
+  });
+
+  test('rarity table follows depth', () => {
+    const picks = (levelId: number) => {
+      const seen = new Set<string>();
+      for (let i = 0; i < 100; i++) seen.add(pickMonsterDef(levelId, () => i / 100)!.defId);
+      return seen;
+    };
+    expect(picks(1)).toEqual(new Set(['rat', 'goblin', 'cave_spider']));
+    expect(picks(25).has('rat')).toBe(false);
+    expect(picks(25).has('wraith')).toBe(true);
+    expect(pickMonsterDef(0, () => 0)).toBeNull();
+    expect(pickMonsterDef(1, () => 0.999999)?.defId).toBe('cave_spider');
+  });
+});
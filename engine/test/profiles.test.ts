@@ -0,0 +1,33 @@
+import { describe, expect, test } from 'vitest';
+import { getGenerator } from '../src/generators.js';
+import { checkChunkWindow } from '../src/invariants.js';
+import { DEPTH_PROFILES_V1, LEGACY_PROFILE, profileFromTable } from '../src/profiles.js';
+
+function countEdges(version: string, seed: number, levelId: number, v: number): number {
+  let n = 0;
+  for (let cx = 0; cx < 4; cx++) {
+    const chunk = getGenerator(version).generateChunk(seed, levelId, cx, 0);
+    for (const arr of [chunk.east, chunk.south]) for (const e of arr) if (e === v) n++;
+  }
+  return n;
+}
+
+describe('depth-scaled generation profiles', () => {
+  test('bands select by level and shallow levels keep the legacy profile', () => {
+    expect(profileFromTable(DEPTH_PROFILES_V1, 1)).toBe(LEGACY_PROFILE);
+    expect(profileFromTable(DEPTH_PROFILES_V1, 6).leafMin).toBeLessThan(LEGACY_PROFILE.leafMin);
+    expect(getGenerator('depth_v1').profile(25).lockDifficulty).toBeGreaterThan(getGenerator('depth_v1').profile(3).lockDifficulty);
+    expect(getGenerator('doors_v1').profile(25)).toBe(LEGACY_PROFILE);
+  });
+
+  test('deeper levels get more doors and locked doors', () => {
+    expect(countEdges('depth_v1', 99, 1, 4)).toBe(0);
+    expect(countEdges('depth_v1', 99, 25, 4)).toBeGreaterThan(0);
+    expect(countEdges('depth_v1', 99, 25, 2) + countEdges('depth_v1', 99, 25, 4)).toBeGreaterThan(countEdges('depth_v1', 99, 1, 2));
+    expect(countEdges('doors_v1', 99, 25, 4)).toBe(0);
+  });
+
+  test('deep levels still satisfy the maze invariants', () => {
+    expect(checkChunkWindow(99, 25, 0, 0, 2, 2, 'depth_v1').violations).toEqual([]);
+  });
+});
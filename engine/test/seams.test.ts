@@ -0,0 +1,74 @@
+import { describe, expect, test } from 'vitest';
+import { ChunkCache } from '../src/world.js';
+import { seamOpenings } from '../src/maze.js';
+import type { Dir } from '../src/types.js';
+
+const SEED = 9001;
+const LEVEL = 3;
+
+function passable(cache: ChunkCache, x: number, y: number, dir: Dir): boolean {
+  const e = cache.edgeType(LEVEL, x, y, dir);
+  return e === 'open' || e === 'door_unlocked';
+}
+
+describe('chunk seams', () => {
+  test('seam openings are keyed by the chunk pair and stable', () => {
+    const a = seamOpenings(SEED, LEVEL, 2, -1, 'E');
+    const b = seamOpenings(SEED, LEVEL, 2, -1, 'E');
+    expect(a).toEqual(b);
+    expect(a.length).toBeGreaterThan(0);
+    for (const o of a) {
+      expect(o).toBeGreaterThanOrEqual(1);
+      expect(o).toBeLessThanOrEqual(62);
+    }
+  });
+
+  test('seam edges are open from both sides of the border', () => {
+    const cache = new ChunkCache(SEED);
+
+    for (const y of seamOpenings(SEED, LEVEL, 0, 0, 'E')) {
+      expect(cache.edgeType(LEVEL, 63, y, 'E')).toBe('open');
+      expect(cache.edgeType(LEVEL, 64, y, 'W')).toBe('open');
+    }
+    for (const x of seamOpenings(SEED, LEVEL, 0, 0, 'S')) {
+      expect(cache.edgeType(LEVEL, x, 63, 'S')).toBe('open');
+      expect(cache.edgeType(LEVEL, x, 64, 'N')).toBe('open');
+    }
+  });
+
+  test('corridor networks join across a 2x2 chunk window', () => {
+    const cache = new ChunkCache(SEED);
+    const min = 0;
+    const max = 127;
+
+    // Start from the first east seam cell of chunk (0,0).
+    const sy = seamOpenings(SEED, LEVEL, 0, 0, 'E')[0]!;
+    const seen = new Set<string>([`63,${sy}`]);
+    const queue: Array<[number, number]> = [[63, sy]];
+    const dirs: Array<[Dir, number, number]> = [
+      ['N', 0, -1],
+      ['E', 1, 0],
+      ['S', 0, 1],
+      ['W', -1, 0]
+    ];
+
+    while (queue.length) {
+      const [x, y] = queue.shift()!;
+      for (const [d, dx, dy] of dirs) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < min || ny < min || nx > max || ny > max) continue;
+        if (!passable(cache, x, y, d)) continue;
+        const k = `${nx},${ny}`;
+        if (seen.has(k)) continue;
+        seen.add(k);
+        queue.push([nx, ny]);
+      }
+    }
+
+    // Every seam inside the window is reached from the start.
+    for (const y of seamOpenings(SEED, LEVEL, 0, 1, 'E')) expect(seen.has(`64,${64 + y}`)).toBe(true);
+    for (const x of seamOpenings(SEED, LEVEL, 0, 0, 'S')) expect(seen.has(`${x},64`)).toBe(true);
+    for (const x of seamOpenings(SEED, LEVEL, 1, 0, 'S')) expect(seen.has(`${64 + x},64`)).toBe(true);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'vitest';
+import { parseTownMap, TOWN_LEVEL_ID } from '../src/town.js';
+import { WorldEngine } from '../src/world.js';
+
+const MAP = {
+  name: 'mini',
+  origin: { x: -1, y: -1 },
+  grid: [
+    '+-+-+-+',
+    '|. .|.|',
+    '+-+D+-+',
+    '  |.L.|',
+    '  +-+-+'
+  ],
+  zones: [{ id: 'shop', kind: 'shop', x: 1, y: -1, w: 1, h: 1 }],
+  spawns: [{ id: 'default', x: 0, y: 0, face: 'S' }]
+};
+
+describe('town map parser', () => {
+  test('cells, zones, spawns and edges', () => {
+    const town = parseTownMap(MAP);
+    expect(town.cells).toHaveLength(5);
+    expect(town.cells.find((c) => c.x === 1 && c.y === -1)?.zoneId).toBe('shop');
+    expect(town.spawns).toEqual([{ id: 'default', x: 0, y: 0, face: 'S' }]);
+
+    const edge = (x: number, y: number, dir: 'E' | 'S') => town.edges.find((e) => e.x === x && e.y === y && e.dir === dir)?.edgeType;
+    expect(edge(-1, -1, 'E')).toBe('open');
+    expect(edge(0, -1, 'S')).toBe('door_unlocked');
+    expect(edge(0, 0, 'E')).toBe('door_locked');
+    expect(edge(-2, -1, 'E')).toBe('wall'); // west border
+    expect(edge(-1, -1, 'S')).toBe('wall'); // floor above solid
+    expect(edge(-1, 0, 'E')).toBe('wall'); // solid next to floor
+  });
+
+  test('rejects malformed maps', () => {
+    expect(() => parseTownMap({ ...MAP, grid: ['+-+', '|.|'] })).toThrow(/odd number/);
+    expect(() => parseTownMap({ ...MAP, grid: ['+-+-+', '|. .', '+-+-+'] })).toThrow(/width/);
+    expect(() => parseTownMap({ ...MAP, grid: ['+-+-+', '|.  |', '+-+-+'] })).toThrow(/non-town cell/);
+    expect(() => parseTownMap({ ...MAP, spawns: [{ id: 'x', x: -1, y: 0 }] })).toThrow(/not on a town cell/);
+  });
+
+  test('level 0 has no generated base layer', () => {
+    const eng = new WorldEngine({
+      seed: 1,
+      overlay: { getEdgeOverride: () => null },
+      discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+      time: { nowMs: () => 0 }
+    });
+    for (let x = -5; x < 5; x++) {
+      expect(eng.edgeType(TOWN_LEVEL_ID, x, 0, 'E')).toBe('wall');
+      expect(eng.edgeType(TOWN_LEVEL_ID, x, 0, 'S')).toBe('wall');
+    }
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'vitest';
+import { blocksSight, losReveal } from '../src/visibility.js';
+import { WorldEngine } from '../src/world.js';
+import type { Dir, EdgeType } from '../src/types.js';
+
+// Straight E-W corridor along y=0 from x=0..5; a locked door between x=3 and x=4.
+function corridor(): { edgeType: (l: number, x: number, y: number, d: Dir) => EdgeType } {
+  return {
+    edgeType: (_l, x, y, d) => {
+      if (y !== 0) return 'wall';
+      if (d === 'E' && x === 3) return 'door_locked';
+      if (d === 'W' && x === 4) return 'door_locked';
+      if (d === 'E' && x >= 0 && x < 5) return x === 1 ? 'door_unlocked' : 'open';
+      if (d === 'W' && x > 0 && x <= 5) return x === 2 ? 'door_unlocked' : 'open';
+      return 'wall';
+    }
+  };
+}
+
+describe('LoS reveal', () => {
+  test('walls and locked doors block; unlocked doors do not', () => {
+    expect(blocksSight('wall')).toBe(true);
+    expect(blocksSight('door_locked')).toBe(true);
+    expect(blocksSight('door_unlocked')).toBe(false);
+    expect(blocksSight('lever_secret')).toBe(false);
+
+    expect(losReveal(corridor(), 1, { x: 0, y: 0 })).toEqual([
+      { x: 1, y: 0 },
+      { x: 2, y: 0 },
+      { x: 3, y: 0 }
+    ]);
+    expect(losReveal(corridor(), 1, { x: 5, y: 0 })).toEqual([{ x: 4, y: 0 }]);
+  });
+
+  test('respects the range', () => {
+    expect(losReveal(corridor(), 1, { x: 0, y: 0 }, 2)).toHaveLength(2);
+  });
+
+  test('moves record reveals separately from discovery; minimap flags revealed-only cells', () => {
+    const discovered = new Set<string>();
+    const revealed = new Set<string>();
+    const src = corridor();
+    const eng = new WorldEngine({
+      seed: 1,
+      overlay: { getEdgeOverride: (l, x, y, d) => ({ edgeType: src.edgeType(l, x, y, d) }) },
+      discovery: {
+        markDiscovered: (_l, x, y) => void discovered.add(`${x},${y}`),
+        getDiscoveredInRadius: () => Array.from(discovered, (k) => ({ x: Number(k.split(',')[0]), y: Number(k.split(',')[1]) }))
+      },
+      reveals: {
+        markRevealed: (_l, cells) => cells.forEach((c) => revealed.add(`${c.x},${c.y}`)),
+        getRevealedInRadius: () => Array.from(revealed, (k) => ({ x: Number(k.split(',')[0]), y: Number(k.split(',')[1]) }))
+      },
+      time: { nowMs: () => 0 }
+    });
+
+    const r = eng.move({ levelId: 1, x: 0, y: 0, face: 'E', hp: 10 }, { moveReadyAtMs: 0, turnReadyAtMs: 0 }, 'F');
+    expect(r.ok).toBe(true);
+    expect(Array.from(discovered)).toEqual(['1,0']);
+    expect(Array.from(revealed).sort()).toEqual(['0,0', '2,0', '3,0']);
+
+    const mm = eng.view(r.player!, { moveReadyAtMs: 0, turnReadyAtMs: 0 }).minimapCells;
+    expect(mm.find((c) => c.x === 1)?.revealed).toBeUndefined();
+    expect(mm.filter((c) => c.revealed).map((c) => c.x).sort()).toEqual([0, 2, 3]);
+  });
+});
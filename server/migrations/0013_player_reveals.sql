@@ -0,0 +1,18 @@
+-- server/migrations/0013_player_reveals.sql
+-- Per-character LoS reveals (PERSISTENCE_SCHEMA.md "player_reveals").
+-- Separate from discovered_cells_global: revealing a cell never discovers it (I5).
+
+CREATE TABLE IF NOT EXISTS player_reveals (
+  character_id TEXT NOT NULL,
+  world_id TEXT NOT NULL,
+  level_id INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  revealed_at_ms INTEGER NOT NULL,
+  PRIMARY KEY (character_id, world_id, level_id, x, y),
+  FOREIGN KEY (character_id) REFERENCES characters(character_id) ON DELETE CASCADE,
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_reveals_char_world_level
+  ON player_reveals(character_id, world_id, level_id);
@@ -0,0 +1,39 @@
+-- server/migrations/0014_detection.sql
+-- Secret detection (levers, chutes) per character, shared with the character's party.
+
+ALTER TABLE characters ADD COLUMN detect_skill INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS parties (
+  party_id TEXT PRIMARY KEY,
+  created_at_ms INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS party_members (
+  party_id TEXT NOT NULL,
+  character_id TEXT NOT NULL,
+  joined_at_ms INTEGER NOT NULL,
+  PRIMARY KEY (party_id, character_id),
+  FOREIGN KEY (party_id) REFERENCES parties(party_id) ON DELETE CASCADE,
+  FOREIGN KEY (character_id) REFERENCES characters(character_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_party_members_character
+  ON party_members(character_id);
+
+-- kind: lever (x, y, dir is the canonical E/S side) | chute (dir = '').
+CREATE TABLE IF NOT EXISTS detected_secrets (
+  character_id TEXT NOT NULL,
+  world_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  level_id INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  dir TEXT NOT NULL DEFAULT '',
+  detected_at_ms INTEGER NOT NULL,
+  PRIMARY KEY (character_id, world_id, kind, level_id, x, y, dir),
+  FOREIGN KEY (character_id) REFERENCES characters(character_id) ON DELETE CASCADE,
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_detected_secrets_world_level_xy
+  ON detected_secrets(world_id, level_id, x, y);
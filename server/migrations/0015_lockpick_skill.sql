@@ -0,0 +1,4 @@
+-- server/migrations/0015_lockpick_skill.sql
+-- Lockpicking (SPEC_LOCKS.md D1/C1): succeeds iff lockpick_skill >= lock_difficulty.
+
+ALTER TABLE characters ADD COLUMN lockpick_skill INTEGER NOT NULL DEFAULT 1;
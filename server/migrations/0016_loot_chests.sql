@@ -0,0 +1,62 @@
+-- server/migrations/0016_loot_chests.sql
+-- Spawned loot chests, their contents, per-chunk spawn bookkeeping and character inventory.
+
+CREATE TABLE IF NOT EXISTS loot_chests (
+  chest_id TEXT PRIMARY KEY,
+  world_id TEXT NOT NULL,
+  level_id INTEGER NOT NULL,
+  chunk_x INTEGER NOT NULL,
+  chunk_y INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  depth_tier INTEGER NOT NULL,
+  trapped INTEGER NOT NULL DEFAULT 0,
+  trap_type TEXT,
+  -- SPEC_LOCKS.md "Chest locks"
+  locked INTEGER NOT NULL DEFAULT 0,
+  lock_difficulty INTEGER NOT NULL DEFAULT 1,
+  key_monster_entity_id TEXT,
+  state TEXT NOT NULL DEFAULT 'active', -- active|opened
+  opened_at_ms INTEGER,
+  expires_at_ms INTEGER,
+  created_at_ms INTEGER NOT NULL,
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_loot_chests_world_level_xy
+  ON loot_chests(world_id, level_id, x, y);
+
+CREATE INDEX IF NOT EXISTS idx_loot_chests_world_chunk
+  ON loot_chests(world_id, level_id, chunk_x, chunk_y);
+
+CREATE TABLE IF NOT EXISTS loot_chest_items (
+  chest_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  qty INTEGER NOT NULL,
+  item_meta_json TEXT NOT NULL DEFAULT '{}',
+  PRIMARY KEY (chest_id, item_id, item_meta_json),
+  FOREIGN KEY (chest_id) REFERENCES loot_chests(chest_id) ON DELETE CASCADE
+);
+
+CREATE TABLE IF NOT EXISTS chunk_runtime (
+  world_id TEXT NOT NULL,
+  level_id INTEGER NOT NULL,
+  chunk_x INTEGER NOT NULL,
+  chunk_y INTEGER NOT NULL,
+  active_chest_count INTEGER NOT NULL DEFAULT 0,
+  chest_quota INTEGER NOT NULL,
+  next_chest_spawn_check_at_ms INTEGER NOT NULL,
+  last_activated_at_ms INTEGER NOT NULL,
+  PRIMARY KEY (world_id, level_id, chunk_x, chunk_y),
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
+
+-- Carried loot.
+CREATE TABLE IF NOT EXISTS character_items (
+  character_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  qty INTEGER NOT NULL,
+  item_meta_json TEXT NOT NULL DEFAULT '{}',
+  PRIMARY KEY (character_id, item_id, item_meta_json),
+  FOREIGN KEY (character_id) REFERENCES characters(character_id) ON DELETE CASCADE
+);
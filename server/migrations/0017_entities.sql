@@ -0,0 +1,22 @@
+-- server/migrations/0017_entities.sql
+-- Dungeon entities (monsters, NPCs, traders). Players stay in characters/character_position.
+
+CREATE TABLE IF NOT EXISTS entities (
+  entity_id TEXT PRIMARY KEY,
+  world_id TEXT NOT NULL,
+  type TEXT NOT NULL, -- monster|npc|trader
+  def_id TEXT NOT NULL,
+  spawn_level_id INTEGER NOT NULL,
+  level_id INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  hp INTEGER NOT NULL,
+  state_json TEXT NOT NULL DEFAULT '{}',
+  created_at_ms INTEGER NOT NULL,
+  updated_at_ms INTEGER NOT NULL,
+  despawn_at_ms INTEGER,
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_entities_world_level_xy
+  ON entities(world_id, level_id, x, y);
@@ -0,0 +1,8 @@
+-- server/migrations/0018_world_simulation.sql
+-- Soft pause bookkeeping: when each world was last simulated (catch-up runs from here on resume).
+
+CREATE TABLE IF NOT EXISTS world_simulation (
+  world_id TEXT PRIMARY KEY,
+  last_simulated_at_ms INTEGER NOT NULL,
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
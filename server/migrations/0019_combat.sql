@@ -0,0 +1,6 @@
+-- server/migrations/0019_combat.sql
+-- Combat flags (PERSISTENCE_SCHEMA.md character_position): in_combat while a monster targets the
+-- character or it was hit within COMBAT_TIMEOUT_MS; last_attacked_at_ms is the last monster hit.
+
+ALTER TABLE character_position ADD COLUMN in_combat INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE character_position ADD COLUMN last_attacked_at_ms INTEGER;
@@ -0,0 +1,6 @@
+-- server/migrations/0020_egg_of_sanctuary.sql
+-- Egg of Sanctuary (carry limit 1) and the statuses that block manual use; a sanctuary clears them.
+
+ALTER TABLE characters ADD COLUMN has_egg INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE character_position ADD COLUMN stunned INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE character_position ADD COLUMN immobilized INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,30 @@
+-- server/migrations/0021_corpse_chests.sql
+-- Corpse chests: carried inventory dropped on death without an egg. Visibility windows are
+-- stored per chest (owner only, then party, then public); emptied chests are marked removed.
+
+CREATE TABLE IF NOT EXISTS corpse_chests (
+  chest_id TEXT PRIMARY KEY,
+  world_id TEXT NOT NULL,
+  level_id INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  owner_character_id TEXT NOT NULL,
+  created_at_ms INTEGER NOT NULL,
+  private_until_ms INTEGER NOT NULL,
+  party_until_ms INTEGER NOT NULL,
+  public_after_ms INTEGER NOT NULL,
+  is_removed INTEGER NOT NULL DEFAULT 0,
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_corpse_chests_world_level_xy
+  ON corpse_chests(world_id, level_id, x, y);
+
+CREATE TABLE IF NOT EXISTS corpse_chest_items (
+  chest_id TEXT NOT NULL,
+  item_id TEXT NOT NULL,
+  qty INTEGER NOT NULL,
+  item_meta_json TEXT NOT NULL DEFAULT '{}',
+  PRIMARY KEY (chest_id, item_id, item_meta_json),
+  FOREIGN KEY (chest_id) REFERENCES corpse_chests(chest_id) ON DELETE CASCADE
+);
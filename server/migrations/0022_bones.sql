@@ -0,0 +1,31 @@
+-- server/migrations/0022_bones.sql
+-- Bones left by every death (one drop per cell, qty stacks) and the per-character burial record.
+
+CREATE TABLE IF NOT EXISTS bones_drops (
+  drop_id TEXT PRIMARY KEY,
+  world_id TEXT NOT NULL,
+  level_id INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  qty INTEGER NOT NULL,
+  created_at_ms INTEGER NOT NULL,
+  FOREIGN KEY (world_id) REFERENCES worlds(world_id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_bones_drops_world_level_xy
+  ON bones_drops(world_id, level_id, x, y);
+
+CREATE TABLE IF NOT EXISTS bones_burials (
+  drop_id TEXT PRIMARY KEY,
+  character_id TEXT NOT NULL,
+  world_id TEXT NOT NULL,
+  level_id INTEGER NOT NULL,
+  x INTEGER NOT NULL,
+  y INTEGER NOT NULL,
+  qty INTEGER NOT NULL,
+  buried_at_ms INTEGER NOT NULL,
+  FOREIGN KEY (character_id) REFERENCES characters(character_id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_bones_burials_character
+  ON bones_burials(character_id);
@@ -1,6 +1,7 @@
 // server/src/auth.ts
 import type { DB } from './db.js';
 import { id, token } from './ids.js';
+import { CURRENT_GENERATOR_VERSION } from '@infinite-dungeon/engine';
 
 function ensureWorld(db: DB): string {
   const row = db.prepare('SELECT world_id FROM worlds ORDER BY created_at_ms ASC LIMIT 1').get() as any;
@@ -17,7 +18,7 @@ function ensureWorld(db: DB): string {
   db.prepare('INSERT INTO worlds(world_id, seed, generator_version, created_at_ms) VALUES (?,?,?,?)').run(
     worldId,
     seed,
-    'doors_v1',
+    CURRENT_GENERATOR_VERSION,
     now
   );
 
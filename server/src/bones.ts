@@ -0,0 +1,123 @@
+// server/src/bones.ts
+//
+// Bones (GAME_SPEC.md "Bones"): every death leaves bones on its cell, egg or not, and they stay
+// until someone picks them up or buries them. Anyone may, with no cooldown. Drops on the same
+// cell stack into one bones_drops row; burials are kept per character in bones_burials.
+import type { DB } from './db.js';
+import { emitWorldEvent } from './events.js';
+import { id } from './ids.js';
+import { INTERACT_RANGE } from '@infinite-dungeon/engine';
+import type { LootItem, PlayerState, WorldEngine } from '@infinite-dungeon/engine';
+
+export type BonesRef = { dropId: string; levelId: number; x: number; y: number };
+
+// Picked-up bones are carried as this item.
+export const BONES_ITEM_ID = 'bones';
+
+/**
+ * Leaves one more set of bones on the cell and announces the drop to the world.
+ */
+export function dropBones(db: DB, worldId: string, at: { levelId: number; x: number; y: number }, nowMs: number): BonesRef {
+  db.prepare(
+    `
+    INSERT INTO bones_drops(drop_id, world_id, level_id, x, y, qty, created_at_ms)
+    VALUES (?, ?, ?, ?, ?, 1, ?)
+    ON CONFLICT(world_id, level_id, x, y) DO UPDATE SET
+      qty = qty + 1
+  `
+  ).run(id('b'), worldId, at.levelId, at.x, at.y, nowMs);
+  const row = db
+    .prepare(`SELECT drop_id, qty FROM bones_drops WHERE world_id = ? AND level_id = ? AND x = ? AND y = ? LIMIT 1`)
+    .get(worldId, at.levelId, at.x, at.y) as any;
+
+  const ref = { dropId: String(row.drop_id), levelId: at.levelId, x: at.x, y: at.y };
+  emitWorldEvent(worldId, {
+    kind: 'bones_dropped',
+    data: { drop_id: ref.dropId, level_id: ref.levelId, x: ref.x, y: ref.y, qty: Number(row.qty) }
+  });
+  return ref;
+}
+
+/**
+ * Bones with this drop id on a visible cell within INTERACT_RANGE of the player.
+ */
+export function bonesInRange(engine: WorldEngine, player: PlayerState, dropId: string): BonesRef | null {
+  const cell = engine
+    .visibleCells(player)
+    .find(
+      (c) =>
+        Math.abs(c.x - player.x) + Math.abs(c.y - player.y) <= INTERACT_RANGE &&
+        c.objects.some((o) => o.kind === 'bones' && o.id === dropId)
+    );
+  return cell ? { dropId, levelId: player.levelId, x: cell.x, y: cell.y } : null;
+}
+
+// Removes the drop (run inside a transaction); its qty, or null when someone else got there first.
+function takeBones(db: DB, worldId: string, bones: BonesRef): number | null {
+  const row = db.prepare(`SELECT qty FROM bones_drops WHERE world_id = ? AND drop_id = ? LIMIT 1`).get(worldId, bones.dropId) as any;
+  if (!row) return null;
+  db.prepare(`DELETE FROM bones_drops WHERE drop_id = ?`).run(bones.dropId);
+  return Number(row.qty);
+}
+
+function bonesRemoved(worldId: string, bones: BonesRef, characterId: string, how: 'picked_up' | 'buried'): void {
+  emitWorldEvent(worldId, {
+    kind: 'bones_removed',
+    data: { drop_id: bones.dropId, level_id: bones.levelId, x: bones.x, y: bones.y, character_id: characterId, how }
+  });
+}
+
+/**
+ * PICKUP_BONES intent: the whole drop goes into the character's items.
+ */
+export function pickUpBones(
+  db: DB,
+  worldId: string,
+  characterId: string,
+  bones: BonesRef
+): { ok: true; item: LootItem } | { ok: false; reason: 'no_bones' } {
+  const qty = db.transaction(() => {
+    const n = takeBones(db, worldId, bones);
+    if (n === null) return null;
+    db.prepare(
+      `
+      INSERT INTO character_items(character_id, item_id, qty, item_meta_json)
+      VALUES (?, ?, ?, '{}')
+      ON CONFLICT(character_id, item_id, item_meta_json) DO UPDATE SET
+        qty = qty + excluded.qty
+    `
+    ).run(characterId, BONES_ITEM_ID, n);
+    return n;
+  })();
+  if (qty === null) return { ok: false, reason: 'no_bones' };
+
+  bonesRemoved(worldId, bones, characterId, 'picked_up');
+  return { ok: true, item: { itemId: BONES_ITEM_ID, qty } };
+}
+
+/**
+ * BURY_BONES intent: the drop is gone for good and the burial is credited to the character.
+ */
+export function buryBones(
+  db: DB,
+  worldId: string,
+  characterId: string,
+  bones: BonesRef,
+  nowMs: number
+): { ok: true; qty: number } | { ok: false; reason: 'no_bones' } {
+  const qty = db.transaction(() => {
+    const n = takeBones(db, worldId, bones);
+    if (n === null) return null;
+    db.prepare(
+      `
+      INSERT INTO bones_burials(drop_id, character_id, world_id, level_id, x, y, qty, buried_at_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `
+    ).run(bones.dropId, characterId, worldId, bones.levelId, bones.x, bones.y, n, nowMs);
+    return n;
+  })();
+  if (qty === null) return { ok: false, reason: 'no_bones' };
+
+  bonesRemoved(worldId, bones, characterId, 'buried');
+  return { ok: true, qty };
+}
@@ -0,0 +1,367 @@
+// server/src/chests.ts
+//
+// Chest storage. Authored chests live in cell_overrides.override_json.features as
+// { kind: 'chest', id, locked, lock_difficulty?, key_monster_entity_id? }; spawned loot chests
+// live in loot_chests / loot_chest_items.
+import type { DB } from './db.js';
+import { id } from './ids.js';
+import {
+  canOpenChest,
+  CHEST_OPEN_TTL_MS,
+  CHEST_SPAWN_CHECK_INTERVAL_MS,
+  chestQuota,
+  chestTrapDamage,
+  INTERACT_RANGE,
+  planChestSpawns
+} from '@infinite-dungeon/engine';
+import type {
+  ChestLockState,
+  ChestSpawn,
+  ChestTrapType,
+  ChunkKey,
+  LootItem,
+  PlayerState,
+  WorldEngine
+} from '@infinite-dungeon/engine';
+
+export type ChestRef = { chestId: string; levelId: number; x: number; y: number };
+
+function readCell(db: DB, worldId: string, levelId: number, x: number, y: number): any | null {
+  const row = db
+    .prepare(
+      `
+      SELECT override_json
+      FROM cell_overrides
+      WHERE world_id = ?
+        AND level_id = ?
+        AND x = ?
+        AND y = ?
+      LIMIT 1
+    `
+    )
+    .get(worldId, levelId, x, y) as any;
+  if (!row?.override_json) return null;
+  try {
+    return JSON.parse(String(row.override_json));
+  } catch {
+    return null;
+  }
+}
+
+function findFeature(cell: any, chestId: string): any | null {
+  if (!Array.isArray(cell?.features)) return null;
+  return cell.features.find((f: any) => f?.kind === 'chest' && f.id === chestId) ?? null;
+}
+
+export function loadChestLock(db: DB, worldId: string, chest: ChestRef): ChestLockState | null {
+  const loot = loadLootChest(db, worldId, chest.chestId);
+  if (loot) return lootChestLock(loot);
+
+  const f = findFeature(readCell(db, worldId, chest.levelId, chest.x, chest.y), chest.chestId);
+  if (!f) return null;
+  return {
+    locked: f.locked === true,
+    lockDifficulty: Number.isInteger(f.lock_difficulty) ? f.lock_difficulty : 1,
+    keyMonsterEntityId: typeof f.key_monster_entity_id === 'string' ? f.key_monster_entity_id : null
+  };
+}
+
+export function saveChestLock(db: DB, worldId: string, chest: ChestRef, state: ChestLockState): void {
+  const updated = db
+    .prepare(
+      `
+      UPDATE loot_chests
+      SET locked = ?, lock_difficulty = ?, key_monster_entity_id = ?
+      WHERE world_id = ?
+        AND chest_id = ?
+    `
+    )
+    .run(state.locked ? 1 : 0, state.lockDifficulty, state.keyMonsterEntityId, worldId, chest.chestId);
+  if (updated.changes > 0) return;
+
+  const tx = db.transaction(() => {
+    const cell = readCell(db, worldId, chest.levelId, chest.x, chest.y);
+    const f = findFeature(cell, chest.chestId);
+    if (!f) throw new Error(`chest ${chest.chestId} not found`);
+
+    f.locked = state.locked;
+    f.lock_difficulty = state.lockDifficulty;
+    f.key_monster_entity_id = state.keyMonsterEntityId;
+
+    db.prepare(
+      `
+      UPDATE cell_overrides
+      SET override_json = ?, updated_at_ms = ?
+      WHERE world_id = ?
+        AND level_id = ?
+        AND x = ?
+        AND y = ?
+    `
+    ).run(JSON.stringify(cell), Date.now(), worldId, chest.levelId, chest.x, chest.y);
+  });
+  tx();
+}
+
+// ---------------- Spawned loot chests (SIMULATION_RULES.md "Loot chests") ----------------
+
+type LootChestRow = {
+  chest_id: string;
+  level_id: number;
+  x: number;
+  y: number;
+  depth_tier: number;
+  trapped: number;
+  trap_type: string | null;
+  locked: number;
+  lock_difficulty: number;
+  key_monster_entity_id: string | null;
+  state: 'active' | 'opened';
+};
+
+function loadLootChest(db: DB, worldId: string, chestId: string): LootChestRow | null {
+  const row = db
+    .prepare(
+      `
+      SELECT chest_id, level_id, x, y, depth_tier, trapped, trap_type, locked, lock_difficulty,
+             key_monster_entity_id, state
+      FROM loot_chests
+      WHERE world_id = ?
+        AND chest_id = ?
+      LIMIT 1
+    `
+    )
+    .get(worldId, chestId) as LootChestRow | undefined;
+  return row ?? null;
+}
+
+function lootChestLock(row: LootChestRow): ChestLockState {
+  return {
+    locked: Number(row.locked) === 1,
+    lockDifficulty: Number(row.lock_difficulty),
+    keyMonsterEntityId: row.key_monster_entity_id
+  };
+}
+
+/**
+ * Chest with this id on a visible cell within INTERACT_RANGE of the player (V2).
+ */
+export function chestInRange(engine: WorldEngine, player: PlayerState, chestId: string): ChestRef | null {
+  const cell = engine
+    .visibleCells(player)
+    .find(
+      (c) =>
+        Math.abs(c.x - player.x) + Math.abs(c.y - player.y) <= INTERACT_RANGE &&
+        c.objects.some((o) => o.kind === 'chest' && o.id === chestId)
+    );
+  return cell ? { chestId, levelId: player.levelId, x: cell.x, y: cell.y } : null;
+}
+
+/**
+ * Scheduled spawn checks for the active chunks, plus expiry of opened chests.
+ *
+ * A chunk that was inactive across several check boundaries runs one check per missed boundary,
+ * but stops as soon as it is at quota, so long offline time never over-spawns.
+ */
+export function runChestChecks(
+  db: DB,
+  worldId: string,
+  seed: number,
+  engine: WorldEngine,
+  chunks: ChunkKey[],
+  nowMs: number
+): { spawned: ChestRef[]; expired: ChestRef[] } {
+  const spawned: ChestRef[] = [];
+  const expired: ChestRef[] = [];
+
+  const tx = db.transaction(() => {
+    const expiredRows = db
+      .prepare(
+        `
+        SELECT chest_id, level_id, chunk_x, chunk_y, x, y
+        FROM loot_chests
+        WHERE world_id = ?
+          AND state = 'opened'
+          AND expires_at_ms <= ?
+      `
+      )
+      .all(worldId, nowMs) as any[];
+
+    for (const r of expiredRows) {
+      db.prepare(`DELETE FROM loot_chests WHERE chest_id = ?`).run(r.chest_id);
+      db.prepare(
+        `
+        UPDATE chunk_runtime
+        SET active_chest_count = MAX(0, active_chest_count - 1)
+        WHERE world_id = ?
+          AND level_id = ?
+          AND chunk_x = ?
+          AND chunk_y = ?
+      `
+      ).run(worldId, r.level_id, r.chunk_x, r.chunk_y);
+      expired.push({ chestId: String(r.chest_id), levelId: Number(r.level_id), x: Number(r.x), y: Number(r.y) });
+    }
+
+    for (const c of chunks) {
+      const quota = chestQuota(c.levelId);
+      if (quota <= 0) continue;
+
+      let rt = db
+        .prepare(
+          `
+          SELECT active_chest_count, next_chest_spawn_check_at_ms
+          FROM chunk_runtime
+          WHERE world_id = ?
+            AND level_id = ?
+            AND chunk_x = ?
+            AND chunk_y = ?
+          LIMIT 1
+        `
+        )
+        .get(worldId, c.levelId, c.chunkX, c.chunkY) as any;
+
+      // First activation: the first check is due now.
+      if (!rt) {
+        rt = { active_chest_count: 0, next_chest_spawn_check_at_ms: nowMs };
+      }
+
+      let count = Number(rt.active_chest_count);
+      let next = Number(rt.next_chest_spawn_check_at_ms);
+
+      if (nowMs >= next) {
+        const missed = Math.floor((nowMs - next) / CHEST_SPAWN_CHECK_INTERVAL_MS) + 1;
+        const occupied = new Set(
+          (
+            db
+              .prepare(
+                `
+                SELECT x, y
+                FROM loot_chests
+                WHERE world_id = ?
+                  AND level_id = ?
+                  AND chunk_x = ?
+                  AND chunk_y = ?
+              `
+              )
+              .all(worldId, c.levelId, c.chunkX, c.chunkY) as any[]
+          ).map((r) => `${r.x},${r.y}`)
+        );
+
+        // After a long absence only the latest checks replay, at most one per free quota slot:
+        // bounded work, and the quota caps what they can add.
+        const replay = Math.max(0, Math.min(missed, quota - count));
+        for (let i = missed - replay; i < missed && count < quota; i++) {
+          const checkIndex = Math.floor(next / CHEST_SPAWN_CHECK_INTERVAL_MS) + i;
+          const candidates = engine.chestSpawnCells(c.levelId, c.chunkX, c.chunkY).filter((p) => !occupied.has(`${p.x},${p.y}`));
+          for (const s of planChestSpawns(seed, c.levelId, c.chunkX, c.chunkY, checkIndex, quota - count, candidates)) {
+            const chestId = id('ch');
+            insertLootChest(db, worldId, chestId, c, s, nowMs);
+            occupied.add(`${s.x},${s.y}`);
+            count++;
+            spawned.push({ chestId, levelId: c.levelId, x: s.x, y: s.y });
+          }
+        }
+
+        next += missed * CHEST_SPAWN_CHECK_INTERVAL_MS;
+      }
+
+      db.prepare(
+        `
+        INSERT INTO chunk_runtime(
+          world_id, level_id, chunk_x, chunk_y, active_chest_count, chest_quota,
+          next_chest_spawn_check_at_ms, last_activated_at_ms
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(world_id, level_id, chunk_x, chunk_y) DO UPDATE SET
+          active_chest_count = excluded.active_chest_count,
+          chest_quota = excluded.chest_quota,
+          next_chest_spawn_check_at_ms = excluded.next_chest_spawn_check_at_ms,
+          last_activated_at_ms = excluded.last_activated_at_ms
+      `
+      ).run(worldId, c.levelId, c.chunkX, c.chunkY, count, quota, next, nowMs);
+    }
+  });
+  tx();
+
+  return { spawned, expired };
+}
+
+function insertLootChest(db: DB, worldId: string, chestId: string, chunk: ChunkKey, s: ChestSpawn, nowMs: number): void {
+  db.prepare(
+    `
+    INSERT INTO loot_chests(
+      chest_id, world_id, level_id, chunk_x, chunk_y, x, y, depth_tier, trapped, trap_type,
+      locked, lock_difficulty, key_monster_entity_id, state, created_at_ms
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL, 'active', ?)
+  `
+  ).run(
+    chestId,
+    worldId,
+    chunk.levelId,
+    chunk.chunkX,
+    chunk.chunkY,
+    s.x,
+    s.y,
+    s.depthTier,
+    s.trapped ? 1 : 0,
+    s.trapType,
+    s.locked ? 1 : 0,
+    s.lockDifficulty,
+    nowMs
+  );
+
+  const stmtItem = db.prepare(`INSERT INTO loot_chest_items(chest_id, item_id, qty, item_meta_json) VALUES (?, ?, ?, '{}')`);
+  for (const it of s.items) stmtItem.run(chestId, it.itemId, it.qty);
+}
+
+/**
+ * OPEN intent: denied while locked (C4). The opener takes the contents; the chest stays as
+ * opened until CHEST_OPEN_TTL_MS later. A trapped chest fires once on opening.
+ */
+export function openChest(
+  db: DB,
+  worldId: string,
+  characterId: string,
+  chest: ChestRef,
+  nowMs: number
+):
+  | { ok: true; items: LootItem[]; trap: { type: ChestTrapType; damage: number } | null }
+  | { ok: false; reason: 'no_loot' | 'already_opened' | 'chest_locked' } {
+  const row = loadLootChest(db, worldId, chest.chestId);
+  // Authored chests are scenery with a lock; they hold no loot.
+  if (!row) return { ok: false, reason: 'no_loot' };
+  if (row.state === 'opened') return { ok: false, reason: 'already_opened' };
+
+  if (!canOpenChest(lootChestLock(row))) return { ok: false, reason: 'chest_locked' };
+
+  const items: LootItem[] = [];
+  const tx = db.transaction(() => {
+    db.prepare(
+      `
+      UPDATE loot_chests
+      SET state = 'opened', opened_at_ms = ?, expires_at_ms = ?
+      WHERE chest_id = ?
+    `
+    ).run(nowMs, nowMs + CHEST_OPEN_TTL_MS, chest.chestId);
+
+    const rows = db.prepare(`SELECT item_id, qty, item_meta_json FROM loot_chest_items WHERE chest_id = ?`).all(chest.chestId) as any[];
+    const stmtGive = db.prepare(
+      `
+      INSERT INTO character_items(character_id, item_id, qty, item_meta_json)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(character_id, item_id, item_meta_json) DO UPDATE SET
+        qty = qty + excluded.qty
+    `
+    );
+    for (const r of rows) {
+      stmtGive.run(characterId, r.item_id, r.qty, r.item_meta_json);
+      items.push({ itemId: String(r.item_id), qty: Number(r.qty) });
+    }
+    db.prepare(`DELETE FROM loot_chest_items WHERE chest_id = ?`).run(chest.chestId);
+  });
+  tx();
+
+  const trapType = Number(row.trapped) === 1 ? (row.trap_type as ChestTrapType | null) : null;
+  const trap = trapType ? { type: trapType, damage: chestTrapDamage(trapType, Number(row.depth_tier)) } : null;
+  return { ok: true, items, trap };
+}
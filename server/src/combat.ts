@@ -0,0 +1,178 @@
+// server/src/combat.ts
+//
+// Melee combat (GAME_SPEC.md "Creatures"): the engine picks targets and rolls, this side
+// applies damage to entities and characters, maintains character_position.in_combat /
+// last_attacked_at_ms, and hands a character whose hp reaches 0 to death.ts.
+import type { DB } from './db.js';
+import { emitWorldEvent, heldWorldEvents } from './events.js';
+import { DbEntityStore } from './entities.js';
+import { handleDeath } from './death.js';
+import { interruptEggChannel } from './egg.js';
+import type { DeathCause, DeathOutcome } from './death.js';
+import { releaseKeyMonsterLocks } from './locks.js';
+import { saveHp } from './state.js';
+import type { ActiveCharacter } from './state.js';
+import { ACTIVE_RADIUS_TILES, attackTarget, PLAYER_ATTACK_DAMAGE, provoke, rollDamage, stillInCombat, withinRadius } from '@infinite-dungeon/engine';
+import type { Dir, Entity, WorldEngine } from '@infinite-dungeon/engine';
+
+export type CombatState = { inCombat: boolean; lastAttackedAtMs: number | null };
+
+export function loadCombatState(db: DB, characterId: string): CombatState {
+  const row = db
+    .prepare(`SELECT in_combat, last_attacked_at_ms FROM character_position WHERE character_id = ? LIMIT 1`)
+    .get(characterId) as any;
+  return {
+    inCombat: Number(row?.in_combat ?? 0) === 1,
+    lastAttackedAtMs: row?.last_attacked_at_ms == null ? null : Number(row.last_attacked_at_ms)
+  };
+}
+
+function setInCombat(db: DB, characterId: string, lastAttackedAtMs?: number): void {
+  if (lastAttackedAtMs === undefined) {
+    db.prepare(`UPDATE character_position SET in_combat = 1 WHERE character_id = ?`).run(characterId);
+  } else {
+    db.prepare(`UPDATE character_position SET in_combat = 1, last_attacked_at_ms = ? WHERE character_id = ?`).run(
+      lastAttackedAtMs,
+      characterId
+    );
+  }
+}
+
+/**
+ * A monster died: remove it and release its key-locks (D2 doors, C2 chests).
+ */
+export function killEntity(db: DB, worldId: string, engine: WorldEngine, entity: Entity): void {
+  heldWorldEvents(db.transaction(() => {
+    new DbEntityStore(db, worldId).remove(entity.entityId);
+    releaseKeyMonsterLocks(db, worldId, engine, entity.entityId, 'killed');
+  }));
+}
+
+/**
+ * ATTACK intent: hits the monster in the faced adjacent cell. A surviving monster is provoked
+ * into chasing the attacker; a killed one is removed with its key-locks released (D2/C2) and
+ * announced as entity_killed. Either way the attacker is in combat.
+ */
+export function playerAttack(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  attacker: ActiveCharacter,
+  nowMs: number,
+  rng: () => number = Math.random
+): { ok: true; entity: Entity; damage: number; killed: boolean } | { ok: false; reason: string } {
+  const cell = attackTarget(engine, { levelId: attacker.levelId, x: attacker.x, y: attacker.y, face: attacker.face as Dir });
+  const store = new DbEntityStore(db, worldId);
+  const target = cell ? store.at(cell.levelId, cell.x, cell.y).find((e) => e.type === 'monster') : undefined;
+  if (!target) return { ok: false, reason: 'no_target' };
+
+  const damage = rollDamage(PLAYER_ATTACK_DAMAGE, rng);
+  const hit: Entity = { ...provoke(target, attacker.characterId), hp: Math.max(0, target.hp - damage) };
+  const killed = hit.hp <= 0;
+
+  heldWorldEvents(db.transaction(() => {
+    if (killed) killEntity(db, worldId, engine, target);
+    else store.save(hit, nowMs);
+    setInCombat(db, attacker.characterId);
+  }));
+
+  if (killed) {
+    emitWorldEvent(worldId, {
+      kind: 'entity_killed',
+      data: {
+        entity_id: target.entityId,
+        def_id: target.defId,
+        level_id: target.levelId,
+        x: target.x,
+        y: target.y,
+        character_id: attacker.characterId
+      }
+    });
+  }
+
+  return { ok: true, entity: hit, damage, killed };
+}
+
+/**
+ * Applies damage to a character (hp and position read fresh, so several hits in one tick add
+ * up). Any damage interrupts an Egg of Sanctuary channel. Monster hits put the character in
+ * combat, stamp last_attacked_at_ms and go out as character_attacked. At 0 hp the character
+ * dies (death.ts) and comes back with the returned respawn. A character without a position row
+ * is left untouched.
+ */
+export function damageCharacter(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  characterId: string,
+  damage: number,
+  cause: DeathCause,
+  nowMs: number
+): { hp: number; death: DeathOutcome | null } {
+  const row = db
+    .prepare(
+      `
+      SELECT c.hp, cp.level_id, cp.x, cp.y, cp.face
+      FROM characters c
+      JOIN character_position cp ON cp.character_id = c.character_id
+      WHERE c.character_id = ?
+      LIMIT 1
+    `
+    )
+    .get(characterId) as any;
+  // Unknown character or no position row: nothing to damage, and no cell to die on.
+  if (!row) return { hp: 0, death: null };
+
+  const hp = Math.max(0, Number(row.hp) - damage);
+  saveHp(db, characterId, hp);
+
+  if (cause.kind === 'monster') {
+    setInCombat(db, characterId, nowMs);
+    emitWorldEvent(worldId, {
+      kind: 'character_attacked',
+      data: { character_id: characterId, entity_id: cause.entityId, def_id: cause.defId, damage, hp }
+    });
+  }
+  if (damage > 0) interruptEggChannel(characterId, 'damage');
+
+  if (hp > 0) return { hp, death: null };
+  const at = { levelId: Number(row.level_id), x: Number(row.x), y: Number(row.y), face: String(row.face) };
+  return { hp, death: handleDeath(db, worldId, engine, characterId, at, cause, nowMs) };
+}
+
+/**
+ * Clears in_combat for characters in the world that no nearby monster targets and that have
+ * not been hit for COMBAT_TIMEOUT_MS. A target id left on a monster the character got away
+ * from (other level, out of the active region) does not count. Returns who left combat.
+ */
+export function clearStaleCombat(db: DB, worldId: string, nowMs: number): string[] {
+  const rows = db
+    .prepare(
+      `
+        SELECT character_id, level_id, x, y, last_attacked_at_ms
+        FROM character_position
+        WHERE world_id = ?
+          AND in_combat = 1
+      `
+    )
+    .all(worldId) as any[];
+  if (rows.length === 0) return [];
+
+  const chasers = new Map<string, Entity[]>();
+  for (const e of new DbEntityStore(db, worldId).ofType('monster')) {
+    if (e.ai.targetId) chasers.set(e.ai.targetId, [...(chasers.get(e.ai.targetId) ?? []), e]);
+  }
+
+  const left: string[] = [];
+  const clear = db.prepare(`UPDATE character_position SET in_combat = 0 WHERE character_id = ?`);
+  for (const r of rows) {
+    const characterId = String(r.character_id);
+    const at = { levelId: Number(r.level_id), x: Number(r.x), y: Number(r.y) };
+    const targeted = (chasers.get(characterId) ?? []).some((e) => e.levelId === at.levelId && withinRadius(e, at, ACTIVE_RADIUS_TILES));
+    const last = r.last_attacked_at_ms == null ? null : Number(r.last_attacked_at_ms);
+    if (stillInCombat(last, targeted, nowMs)) continue;
+    clear.run(characterId);
+    left.push(characterId);
+  }
+  return left;
+}
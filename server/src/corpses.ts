@@ -0,0 +1,147 @@
+// server/src/corpses.ts
+//
+// Corpse chests (corpse_chests / corpse_chest_items): carried items dropped where a character
+// died without an egg. Each viewer only sees the corpses its visibility window allows
+// (features.ts); looting takes everything and removes the chest.
+import type { DB } from './db.js';
+import { emitWorldEvent } from './events.js';
+import { id } from './ids.js';
+import { corpseVisibleTo, corpseWindows, INTERACT_RANGE } from '@infinite-dungeon/engine';
+import type { CorpseViewer, CorpseWindows, LootItem, PlayerState, WorldEngine } from '@infinite-dungeon/engine';
+
+export type CorpseRef = { chestId: string; levelId: number; x: number; y: number };
+
+export function corpseWindowsOf(row: any): CorpseWindows {
+  return {
+    privateUntilMs: Number(row.private_until_ms),
+    partyUntilMs: Number(row.party_until_ms),
+    publicAfterMs: Number(row.public_after_ms)
+  };
+}
+
+// Characters sharing a party with this one (itself excluded).
+export function partyMates(db: DB, characterId: string): Set<string> {
+  const rows = db
+    .prepare(
+      `
+      SELECT DISTINCT pm2.character_id
+      FROM party_members pm
+      JOIN party_members pm2 ON pm2.party_id = pm.party_id
+      WHERE pm.character_id = ?
+        AND pm2.character_id <> ?
+    `
+    )
+    .all(characterId, characterId) as any[];
+  return new Set(rows.map((r) => String(r.character_id)));
+}
+
+export function corpseViewer(ownerId: string, viewerId: string | undefined, mates: ReadonlySet<string>): CorpseViewer {
+  if (!viewerId) return 'other';
+  if (viewerId === ownerId) return 'owner';
+  return mates.has(ownerId) ? 'party' : 'other';
+}
+
+/**
+ * Moves everything the character carries into a new corpse chest on the death cell. Null when
+ * nothing was carried: no empty corpse is left behind.
+ */
+export function dropCorpse(
+  db: DB,
+  worldId: string,
+  characterId: string,
+  at: { levelId: number; x: number; y: number },
+  nowMs: number
+): CorpseRef | null {
+  const tx = db.transaction((): CorpseRef | null => {
+    const items = db.prepare(`SELECT item_id, qty, item_meta_json FROM character_items WHERE character_id = ?`).all(characterId) as any[];
+    if (items.length === 0) return null;
+
+    const chestId = id('cc');
+    const w = corpseWindows(nowMs, partyMates(db, characterId).size > 0);
+    db.prepare(
+      `
+      INSERT INTO corpse_chests(
+        chest_id, world_id, level_id, x, y, owner_character_id,
+        created_at_ms, private_until_ms, party_until_ms, public_after_ms, is_removed
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)
+    `
+    ).run(chestId, worldId, at.levelId, at.x, at.y, characterId, nowMs, w.privateUntilMs, w.partyUntilMs, w.publicAfterMs);
+
+    const stmtItem = db.prepare(`INSERT INTO corpse_chest_items(chest_id, item_id, qty, item_meta_json) VALUES (?, ?, ?, ?)`);
+    for (const r of items) stmtItem.run(chestId, r.item_id, r.qty, r.item_meta_json);
+    db.prepare(`DELETE FROM character_items WHERE character_id = ?`).run(characterId);
+
+    return { chestId, levelId: at.levelId, x: at.x, y: at.y };
+  });
+  return tx();
+}
+
+/**
+ * Corpse with this id on a visible cell within INTERACT_RANGE of the player. The engine must be
+ * the player's own (makeEngine with its characterId), so corpses it may not see are absent.
+ */
+export function corpseInRange(engine: WorldEngine, player: PlayerState, chestId: string): CorpseRef | null {
+  const cell = engine
+    .visibleCells(player)
+    .find(
+      (c) =>
+        Math.abs(c.x - player.x) + Math.abs(c.y - player.y) <= INTERACT_RANGE &&
+        c.objects.some((o) => o.kind === 'corpse' && o.id === chestId)
+    );
+  return cell ? { chestId, levelId: player.levelId, x: cell.x, y: cell.y } : null;
+}
+
+/**
+ * LOOT intent: the looter takes the whole corpse chest, which then disappears. Visibility is
+ * re-checked against the stored windows.
+ */
+export function lootCorpse(
+  db: DB,
+  worldId: string,
+  characterId: string,
+  corpse: CorpseRef,
+  nowMs: number
+): { ok: true; items: LootItem[] } | { ok: false; reason: 'no_corpse' | 'not_visible' } {
+  const row = db
+    .prepare(
+      `
+      SELECT owner_character_id, private_until_ms, party_until_ms, public_after_ms
+      FROM corpse_chests
+      WHERE world_id = ?
+        AND chest_id = ?
+        AND is_removed = 0
+      LIMIT 1
+    `
+    )
+    .get(worldId, corpse.chestId) as any;
+  if (!row) return { ok: false, reason: 'no_corpse' };
+
+  const viewer = corpseViewer(String(row.owner_character_id), characterId, partyMates(db, characterId));
+  if (!corpseVisibleTo(corpseWindowsOf(row), viewer, nowMs)) return { ok: false, reason: 'not_visible' };
+
+  const items: LootItem[] = [];
+  const tx = db.transaction(() => {
+    const rows = db.prepare(`SELECT item_id, qty, item_meta_json FROM corpse_chest_items WHERE chest_id = ?`).all(corpse.chestId) as any[];
+    const stmtGive = db.prepare(
+      `
+      INSERT INTO character_items(character_id, item_id, qty, item_meta_json)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(character_id, item_id, item_meta_json) DO UPDATE SET
+        qty = qty + excluded.qty
+    `
+    );
+    for (const r of rows) {
+      stmtGive.run(characterId, r.item_id, r.qty, r.item_meta_json);
+      items.push({ itemId: String(r.item_id), qty: Number(r.qty) });
+    }
+    db.prepare(`DELETE FROM corpse_chest_items WHERE chest_id = ?`).run(corpse.chestId);
+    db.prepare(`UPDATE corpse_chests SET is_removed = 1 WHERE chest_id = ?`).run(corpse.chestId);
+  });
+  tx();
+
+  emitWorldEvent(worldId, {
+    kind: 'corpse_chest_removed',
+    data: { chest_id: corpse.chestId, level_id: corpse.levelId, x: corpse.x, y: corpse.y }
+  });
+  return { ok: true, items };
+}
@@ -0,0 +1,82 @@
+// server/src/death.ts
+//
+// Character death (GAME_SPEC.md "Death and resurrection"). Detected server-side wherever hp
+// reaches 0 (combat.ts damageCharacter); handleDeath runs the death steps in order and leaves
+// the character alive again somewhere safe.
+import type { DB } from './db.js';
+import { dropBones } from './bones.js';
+import { dropCorpse } from './corpses.js';
+import { emitWorldEvent } from './events.js';
+import { clearStatuses, consumeEgg, sanctuary } from './egg.js';
+import { saveHp, savePosition } from './state.js';
+import { townSpawn } from './town.js';
+import { PLAYER_MAX_HP, TOWN_LEVEL_ID } from '@infinite-dungeon/engine';
+import type { Dir, WorldEngine } from '@infinite-dungeon/engine';
+
+// Death-trigger causes (SIMULATION_RULES.md "Egg of Sanctuary": monsters and traps).
+export type DeathCause = { kind: 'monster'; entityId: string; defId: string } | { kind: 'trap'; trapType: string };
+
+export type DeathOutcome = {
+  eggUsed: boolean;
+  corpseChestId: string | null;
+  respawn: { levelId: number; x: number; y: number; face: Dir };
+};
+
+// Free temple resurrection point; the default spawn, then the level 1 hub, if the town was never imported.
+function resurrectionPoint(db: DB, worldId: string): { levelId: number; x: number; y: number; face: Dir } {
+  const spawn = townSpawn(db, worldId, 'temple_steps') ?? townSpawn(db, worldId);
+  if (spawn) return { levelId: TOWN_LEVEL_ID, x: spawn.x, y: spawn.y, face: spawn.face };
+  return { levelId: 1, x: 0, y: 0, face: 'N' };
+}
+
+function causeData(cause: DeathCause): Record<string, unknown> {
+  return cause.kind === 'monster'
+    ? { kind: 'monster', entity_id: cause.entityId, def_id: cause.defId }
+    : { kind: 'trap', trap_type: cause.trapType };
+}
+
+/**
+ * A character's hp reached 0. Steps, in order:
+ *  1. Egg of Sanctuary death-trigger: consume the egg if carried;
+ *  2. without the egg, carried items drop into a corpse chest on the death cell;
+ *     bones drop there either way;
+ *  3. announce character_died (with the death cell, whether the egg saved them and the corpse
+ *     chest id, so a private corpse is never announced on its own);
+ *  4. with the egg, sanctuary on the death level's hub; without, resurrect in town.
+ *     Both restore full hp and clear statuses.
+ * Inside a transaction, run it under heldWorldEvents so a rollback is never announced.
+ */
+export function handleDeath(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  characterId: string,
+  at: { levelId: number; x: number; y: number; face: string },
+  cause: DeathCause,
+  nowMs: number
+): DeathOutcome {
+  const eggUsed = consumeEgg(db, characterId);
+  const corpseChestId = eggUsed ? null : (dropCorpse(db, worldId, characterId, at, nowMs)?.chestId ?? null);
+  dropBones(db, worldId, at, nowMs);
+
+  emitWorldEvent(worldId, {
+    kind: 'character_died',
+    data: {
+      character_id: characterId,
+      level_id: at.levelId,
+      x: at.x,
+      y: at.y,
+      cause: causeData(cause),
+      egg_used: eggUsed,
+      corpse_chest_id: corpseChestId
+    }
+  });
+
+  if (eggUsed) return { eggUsed, corpseChestId, respawn: sanctuary(db, worldId, engine, characterId, at) };
+
+  const respawn = resurrectionPoint(db, worldId);
+  savePosition(db, characterId, worldId, respawn.levelId, respawn.x, respawn.y, respawn.face);
+  saveHp(db, characterId, PLAYER_MAX_HP);
+  clearStatuses(db, characterId);
+  return { eggUsed, corpseChestId, respawn };
+}
@@ -0,0 +1,67 @@
+// server/src/detection.ts
+import type { DB } from './db.js';
+import type { SecretRef } from '@infinite-dungeon/engine';
+
+/**
+ * Secret detection for one viewer (engine DetectionProvider).
+ *
+ * Rows are written per character; reads include every member of the character's parties,
+ * so detection is party-shared.
+ */
+export class DbDetectionProvider {
+  private readonly viewers: string[];
+  private readonly stmtIsDetected;
+
+  constructor(
+    private readonly db: DB,
+    private readonly worldId: string,
+    private readonly characterId: string
+  ) {
+    const mates = this.db
+      .prepare(
+        `
+        SELECT DISTINCT pm2.character_id
+        FROM party_members pm
+        JOIN party_members pm2 ON pm2.party_id = pm.party_id
+        WHERE pm.character_id = ?
+      `
+      )
+      .all(characterId) as any[];
+    this.viewers = Array.from(new Set([characterId, ...mates.map((r) => String(r.character_id))]));
+
+    this.stmtIsDetected = this.db.prepare(
+      `
+        SELECT 1
+        FROM detected_secrets
+        WHERE world_id = ?
+          AND kind = ?
+          AND level_id = ?
+          AND x = ?
+          AND y = ?
+          AND dir = ?
+          AND character_id IN (${this.viewers.map(() => '?').join(', ')})
+        LIMIT 1
+      `
+    );
+  }
+
+  isDetected(ref: SecretRef): boolean {
+    const dir = ref.kind === 'lever' ? ref.dir : '';
+    return !!this.stmtIsDetected.get(this.worldId, ref.kind, ref.levelId, ref.x, ref.y, dir, ...this.viewers);
+  }
+
+  markDetected(refs: SecretRef[], atMs: number): void {
+    const stmt = this.db.prepare(
+      `
+      INSERT INTO detected_secrets (character_id, world_id, kind, level_id, x, y, dir, detected_at_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(character_id, world_id, kind, level_id, x, y, dir) DO NOTHING
+    `
+    );
+    this.db.transaction(() => {
+      for (const r of refs) {
+        stmt.run(this.characterId, this.worldId, r.kind, r.levelId, r.x, r.y, r.kind === 'lever' ? r.dir : '', atMs);
+      }
+    })();
+  }
+}
@@ -0,0 +1,151 @@
+// server/src/egg.ts
+//
+// Egg of Sanctuary (SIMULATION_RULES.md "Egg of Sanctuary"). Both uses end in a sanctuary:
+// the egg is consumed and the character lands on its level's hub with full hp and statuses
+// cleared. The death trigger (death.ts) does it at once; manual use runs a 3-5 s channel,
+// held in memory per character, that any damage interrupts (egg kept). Either way bones are
+// left where the character stood.
+import type { DB } from './db.js';
+import { dropBones } from './bones.js';
+import { emitWorldEvent } from './events.js';
+import { saveHp, savePosition } from './state.js';
+import { makeEngine } from './world_engine.js';
+import { eggChannelMs, eggUseRefusal, PLAYER_MAX_HP } from '@infinite-dungeon/engine';
+import type { Dir, EggUser, WorldEngine } from '@infinite-dungeon/engine';
+
+type Channel = { worldId: string; timer: ReturnType<typeof setTimeout> };
+
+// Running channels by character id.
+const channels = new Map<string, Channel>();
+
+function loadEggUser(db: DB, characterId: string): EggUser {
+  const row = db
+    .prepare(
+      `
+      SELECT c.has_egg, cp.in_combat, cp.last_attacked_at_ms, cp.stunned, cp.immobilized
+      FROM characters c
+      LEFT JOIN character_position cp ON cp.character_id = c.character_id
+      WHERE c.character_id = ?
+      LIMIT 1
+    `
+    )
+    .get(characterId) as any;
+
+  return {
+    hasEgg: Number(row?.has_egg ?? 0) === 1,
+    inCombat: Number(row?.in_combat ?? 0) === 1,
+    lastAttackedAtMs: row?.last_attacked_at_ms == null ? null : Number(row.last_attacked_at_ms),
+    stunned: Number(row?.stunned ?? 0) === 1,
+    immobilized: Number(row?.immobilized ?? 0) === 1
+  };
+}
+
+/**
+ * Clears combat and the movement statuses (the "most status effects" a sanctuary or a
+ * resurrection removes; last_attacked_at_ms is history and stays).
+ */
+export function clearStatuses(db: DB, characterId: string): void {
+  db.prepare(`UPDATE character_position SET in_combat = 0, stunned = 0, immobilized = 0 WHERE character_id = ?`).run(
+    characterId
+  );
+}
+
+/**
+ * Consumes the egg if the character carries one. False when there was none.
+ */
+export function consumeEgg(db: DB, characterId: string): boolean {
+  return db.prepare(`UPDATE characters SET has_egg = 0 WHERE character_id = ? AND has_egg = 1`).run(characterId).changes > 0;
+}
+
+/**
+ * Teleport to the nearest hub on the level (the fixed (0,0) hub), full hp, statuses cleared.
+ * The egg must already be consumed.
+ */
+export function sanctuary(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  characterId: string,
+  at: { levelId: number; face: string }
+): { levelId: number; x: number; y: number; face: Dir } {
+  const hub = engine.getHub(at.levelId);
+  const to = { levelId: hub.levelId, x: hub.x, y: hub.y, face: at.face as Dir };
+  savePosition(db, characterId, worldId, to.levelId, to.x, to.y, to.face);
+  saveHp(db, characterId, PLAYER_MAX_HP);
+  clearStatuses(db, characterId);
+  return to;
+}
+
+/**
+ * USE_EGG intent: checks the manual-use restrictions and starts the channel. On completion the
+ * character (wherever it is by then) is taken to its level's hub and onComplete runs.
+ */
+export function startEggChannel(
+  db: DB,
+  worldId: string,
+  characterId: string,
+  nowMs: number,
+  onComplete: () => void,
+  rng: () => number = Math.random
+): { ok: true; channelMs: number } | { ok: false; reason: string } {
+  if (channels.has(characterId)) return { ok: false, reason: 'already_channeling' };
+
+  const refusal = eggUseRefusal(loadEggUser(db, characterId), nowMs);
+  if (refusal) return { ok: false, reason: refusal };
+
+  const channelMs = eggChannelMs(rng);
+  // Timer callbacks must not throw: an uncaught exception would take the server down.
+  const timer = setTimeout(() => {
+    channels.delete(characterId);
+    try {
+      completeEggChannel(db, worldId, characterId);
+    } catch (e: any) {
+      console.warn(`[egg] channel completion failed character=${characterId}: ${String(e?.message ?? e)}`);
+      emitWorldEvent(worldId, { kind: 'egg_channel_interrupted', data: { character_id: characterId, reason: 'error' } });
+      return;
+    }
+    try {
+      onComplete();
+    } catch (e: any) {
+      console.warn(`[egg] channel completion callback failed character=${characterId}: ${String(e?.message ?? e)}`);
+    }
+  }, channelMs);
+  channels.set(characterId, { worldId, timer });
+
+  emitWorldEvent(worldId, { kind: 'egg_channel_started', data: { character_id: characterId, channel_ms: channelMs } });
+  return { ok: true, channelMs };
+}
+
+/**
+ * Stops a running channel (damage taken, disconnect). The egg is not consumed.
+ */
+export function interruptEggChannel(characterId: string, reason: string): void {
+  const c = channels.get(characterId);
+  if (!c) return;
+  clearTimeout(c.timer);
+  channels.delete(characterId);
+  emitWorldEvent(c.worldId, { kind: 'egg_channel_interrupted', data: { character_id: characterId, reason } });
+}
+
+function completeEggChannel(db: DB, worldId: string, characterId: string): void {
+  const pos = db.prepare(`SELECT level_id, x, y, face FROM character_position WHERE character_id = ? LIMIT 1`).get(characterId) as any;
+  // One transaction: a failure part-way rolls back and the egg is kept.
+  const to = db.transaction(() => {
+    if (!pos || !consumeEgg(db, characterId)) return null;
+    const hub = sanctuary(db, worldId, makeEngine(db, worldId), characterId, { levelId: Number(pos.level_id), face: String(pos.face) });
+    // Last, so bones_dropped only goes out once nothing else can fail.
+    dropBones(db, worldId, { levelId: Number(pos.level_id), x: Number(pos.x), y: Number(pos.y) }, Date.now());
+    return hub;
+  })();
+
+  // has_egg is re-checked: it may have changed while the channel ran.
+  if (!to) {
+    emitWorldEvent(worldId, { kind: 'egg_channel_interrupted', data: { character_id: characterId, reason: 'no_egg' } });
+    return;
+  }
+
+  emitWorldEvent(worldId, {
+    kind: 'egg_channel_completed',
+    data: { character_id: characterId, level_id: to.levelId, x: to.x, y: to.y, hp: PLAYER_MAX_HP }
+  });
+}
@@ -0,0 +1,132 @@
+// server/src/entities.ts
+import type { DB } from './db.js';
+import { parseEntityAiState, serializeEntityAiState, withinRadius } from '@infinite-dungeon/engine';
+import type { Entity, EntityType } from '@infinite-dungeon/engine';
+
+function toEntity(r: any): Entity {
+  const x = Number(r.x);
+  const y = Number(r.y);
+  return {
+    entityId: String(r.entity_id),
+    type: String(r.type) as EntityType,
+    defId: String(r.def_id),
+    spawnLevelId: Number(r.spawn_level_id),
+    levelId: Number(r.level_id),
+    x,
+    y,
+    hp: Number(r.hp),
+    ai: parseEntityAiState(r.state_json, { x, y }),
+    despawnAtMs: r.despawn_at_ms === null || r.despawn_at_ms === undefined ? null : Number(r.despawn_at_ms)
+  };
+}
+
+/**
+ * Persisted dungeon entities (entities table) for one world.
+ */
+export class DbEntityStore {
+  private readonly stmtInBox;
+  private readonly stmtAll;
+  private readonly stmtAt;
+  private readonly stmtInsert;
+  private readonly stmtUpdate;
+  private readonly stmtDelete;
+
+  constructor(private readonly db: DB, private readonly worldId: string) {
+    this.stmtInBox = this.db.prepare(
+      `
+        SELECT entity_id, type, def_id, spawn_level_id, level_id, x, y, hp, state_json, despawn_at_ms
+        FROM entities
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x BETWEEN ? AND ?
+          AND y BETWEEN ? AND ?
+      `
+    );
+
+    this.stmtAll = this.db.prepare(
+      `
+        SELECT entity_id, type, def_id, spawn_level_id, level_id, x, y, hp, state_json, despawn_at_ms
+        FROM entities
+        WHERE world_id = ?
+          AND type = ?
+      `
+    );
+
+    this.stmtAt = this.db.prepare(
+      `
+        SELECT entity_id, type, def_id, spawn_level_id, level_id, x, y, hp, state_json, despawn_at_ms
+        FROM entities
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x = ?
+          AND y = ?
+      `
+    );
+
+    this.stmtInsert = this.db.prepare(
+      `
+        INSERT INTO entities
+          (entity_id, world_id, type, def_id, spawn_level_id, level_id, x, y, hp, state_json,
+           created_at_ms, updated_at_ms, despawn_at_ms)
+        VALUES
+          (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+    );
+
+    this.stmtUpdate = this.db.prepare(
+      `
+        UPDATE entities
+        SET level_id = ?, x = ?, y = ?, hp = ?, state_json = ?, updated_at_ms = ?, despawn_at_ms = ?
+        WHERE world_id = ?
+          AND entity_id = ?
+      `
+    );
+
+    this.stmtDelete = this.db.prepare(`DELETE FROM entities WHERE world_id = ? AND entity_id = ?`);
+  }
+
+  /**
+   * Entities on a level within a straight-line radius of (x, y).
+   */
+  inRadius(levelId: number, x: number, y: number, radius: number): Entity[] {
+    const rows = this.stmtInBox.all(this.worldId, levelId, x - radius, x + radius, y - radius, y + radius) as any[];
+    return rows.map(toEntity).filter((e) => withinRadius(e, { x, y }, radius));
+  }
+
+  /**
+   * Every entity of one type in the world, loaded or not (despawn sweep).
+   */
+  ofType(type: EntityType): Entity[] {
+    return (this.stmtAll.all(this.worldId, type) as any[]).map(toEntity);
+  }
+
+  at(levelId: number, x: number, y: number): Entity[] {
+    return (this.stmtAt.all(this.worldId, levelId, x, y) as any[]).map(toEntity);
+  }
+
+  insert(e: Entity, nowMs: number): void {
+    this.stmtInsert.run(
+      e.entityId,
+      this.worldId,
+      e.type,
+      e.defId,
+      e.spawnLevelId,
+      e.levelId,
+      e.x,
+      e.y,
+      e.hp,
+      serializeEntityAiState(e.ai),
+      nowMs,
+      nowMs,
+      e.despawnAtMs
+    );
+  }
+
+  save(e: Entity, nowMs: number): void {
+    this.stmtUpdate.run(e.levelId, e.x, e.y, e.hp, serializeEntityAiState(e.ai), nowMs, e.despawnAtMs, this.worldId, e.entityId);
+  }
+
+  remove(entityId: string): void {
+    this.stmtDelete.run(this.worldId, entityId);
+  }
+}
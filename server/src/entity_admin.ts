@@ -0,0 +1,57 @@
+// server/src/entity_admin.ts
+//
+// Places a monster by hand (debugging; in play the population controller spawns them).
+//
+// Usage (from server/):
+//   npm run entity:spawn -- def=rat level=1 x=3 y=4 [world=<world_id>]
+import Database from 'better-sqlite3';
+import { CONFIG } from './config.js';
+import { DbEntityStore } from './entities.js';
+import { id } from './ids.js';
+import { MONSTER_DEFS, monsterDef, newMonster } from '@infinite-dungeon/engine';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const a of argv) {
+    const i = a.indexOf('=');
+    if (i > 0) out[a.slice(0, i)] = a.slice(i + 1);
+  }
+  return out;
+}
+
+function intArg(args: Record<string, string>, name: string): number {
+  const n = Number(args[name]);
+  if (!Number.isInteger(n)) throw new Error(`${name} must be an integer`);
+  return n;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const def = monsterDef(args.def ?? '');
+if (!def) throw new Error(`def must be one of ${MONSTER_DEFS.map((d) => d.defId).join('/')}`);
+const levelId = intArg(args, 'level');
+const x = intArg(args, 'x');
+const y = intArg(args, 'y');
+
+const db = new Database(CONFIG.dbPath, { fileMustExist: true });
+try {
+  const worldRow = (
+    args.world
+      ? db.prepare('SELECT world_id FROM worlds WHERE world_id = ? LIMIT 1').get(args.world)
+      : db.prepare('SELECT world_id FROM worlds ORDER BY created_at_ms ASC LIMIT 1').get()
+  ) as any;
+  if (!worldRow?.world_id) throw new Error('world not found');
+  const worldId = String(worldRow.world_id);
+
+  const store = new DbEntityStore(db, worldId);
+  console.log('DB PATH:', CONFIG.dbPath);
+  if (store.at(levelId, x, y).length > 0) {
+    console.log(`world=${worldId} level=${levelId} (${x},${y}): occupied`);
+    process.exitCode = 1;
+  } else {
+    const e = newMonster(id('e'), def, { levelId, x, y });
+    store.insert(e, Date.now());
+    console.log(`world=${worldId} level=${levelId} (${x},${y}): ${e.entityId} ${def.defId} hp=${e.hp}`);
+  }
+} finally {
+  db.close();
+}
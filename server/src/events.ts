@@ -0,0 +1,56 @@
+// server/src/events.ts
+//
+// In-process bus for world-wide events (global state changes every connected player should see,
+// e.g. door_lock_state_changed). ws.ts forwards them to sockets in the same world.
+import { EventEmitter } from 'node:events';
+
+export type WorldEvent = { kind: string; data: Record<string, unknown> };
+
+type Listener = (worldId: string, ev: WorldEvent) => void;
+
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+// Events emitted inside heldWorldEvents wait here until the outermost call returns.
+let held: Array<[string, WorldEvent]> | null = null;
+
+export function emitWorldEvent(worldId: string, ev: WorldEvent): void {
+  if (held) held.push([worldId, ev]);
+  else bus.emit('event', worldId, ev);
+}
+
+/**
+ * Runs fn (typically a db.transaction) with its world events held back: they go out once fn
+ * returns, and are dropped if it throws, so clients never hear about changes that rolled back.
+ * Nested calls join the outer hold; a nested throw drops only its own events.
+ */
+export function heldWorldEvents<T>(fn: () => T): T {
+  if (held) {
+    const mark = held.length;
+    try {
+      return fn();
+    } catch (e) {
+      held.length = mark;
+      throw e;
+    }
+  }
+
+  const events: Array<[string, WorldEvent]> = [];
+  held = events;
+  let r: T;
+  try {
+    r = fn();
+  } finally {
+    held = null;
+  }
+  for (const [worldId, ev] of events) bus.emit('event', worldId, ev);
+  return r;
+}
+
+// Returns an unsubscribe function.
+export function onWorldEvent(listener: Listener): () => void {
+  bus.on('event', listener);
+  return () => {
+    bus.off('event', listener);
+  };
+}
@@ -0,0 +1,134 @@
+// server/src/features.ts
+import type { DB } from './db.js';
+import { corpseViewer, corpseWindowsOf, partyMates } from './corpses.js';
+import { corpseVisibleTo } from '@infinite-dungeon/engine';
+import type { CellFeature, Dir } from '@infinite-dungeon/engine';
+
+function isDir(v: any): v is Dir {
+  return v === 'N' || v === 'E' || v === 'S' || v === 'W';
+}
+
+function parseFeature(v: any): CellFeature | null {
+  if (!v || typeof v !== 'object') return null;
+  if ((v.kind === 'ladder' || v.kind === 'chute') && Number.isInteger(v.toLevelId)) return { kind: v.kind, toLevelId: v.toLevelId };
+  if (v.kind === 'lever' && isDir(v.dir)) return { kind: 'lever', dir: v.dir };
+  if (v.kind === 'chest' && typeof v.id === 'string') return { kind: 'chest', id: v.id, locked: v.locked === true };
+  if ((v.kind === 'corpse' || v.kind === 'trap') && typeof v.id === 'string') return { kind: v.kind, id: v.id };
+  return null;
+}
+
+/**
+ * Stored cell objects for the view payload (engine CellFeatureProvider).
+ *
+ * Authored/admin features live in cell_overrides.override_json.features (array of CellFeature);
+ * spawned loot chests, corpse chests, bones and monsters are added from loot_chests /
+ * corpse_chests / bones_drops / entities. Corpses are filtered by the viewer's visibility window; without a viewer only
+ * public ones show.
+ */
+export class DbFeatureProvider {
+  private readonly mates: Set<string>;
+  private readonly stmtGetCell;
+  private readonly stmtLootChests;
+  private readonly stmtCorpseChests;
+  private readonly stmtBones;
+  private readonly stmtMonsters;
+
+  constructor(
+    private readonly db: DB,
+    private readonly worldId: string,
+    private readonly characterId?: string
+  ) {
+    this.mates = characterId ? partyMates(db, characterId) : new Set();
+    this.stmtGetCell = this.db.prepare(
+      `
+        SELECT override_json
+        FROM cell_overrides
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x = ?
+          AND y = ?
+        LIMIT 1
+      `
+    );
+    this.stmtLootChests = this.db.prepare(
+      `
+        SELECT chest_id, locked, state
+        FROM loot_chests
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x = ?
+          AND y = ?
+      `
+    );
+    this.stmtCorpseChests = this.db.prepare(
+      `
+        SELECT chest_id, owner_character_id, private_until_ms, party_until_ms, public_after_ms
+        FROM corpse_chests
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x = ?
+          AND y = ?
+          AND is_removed = 0
+      `
+    );
+    this.stmtBones = this.db.prepare(
+      `
+        SELECT drop_id, qty
+        FROM bones_drops
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x = ?
+          AND y = ?
+      `
+    );
+    this.stmtMonsters = this.db.prepare(
+      `
+        SELECT entity_id, def_id, hp
+        FROM entities
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x = ?
+          AND y = ?
+          AND type = 'monster'
+      `
+    );
+  }
+
+  getFeatures(levelId: number, x: number, y: number): CellFeature[] {
+    const out: CellFeature[] = [];
+
+    const row = this.stmtGetCell.get(this.worldId, levelId, x, y) as any;
+    if (row?.override_json) {
+      try {
+        const j = JSON.parse(String(row.override_json));
+        if (Array.isArray(j?.features)) {
+          for (const f of j.features) {
+            const parsed = parseFeature(f);
+            if (parsed) out.push(parsed);
+          }
+        }
+      } catch {}
+    }
+
+    // Opened chests stay visible until they expire.
+    for (const r of this.stmtLootChests.all(this.worldId, levelId, x, y) as any[]) {
+      out.push({ kind: 'chest', id: String(r.chest_id), locked: Number(r.locked) === 1, opened: r.state === 'opened' });
+    }
+
+    const nowMs = Date.now();
+    for (const r of this.stmtCorpseChests.all(this.worldId, levelId, x, y) as any[]) {
+      const viewer = corpseViewer(String(r.owner_character_id), this.characterId, this.mates);
+      if (corpseVisibleTo(corpseWindowsOf(r), viewer, nowMs)) out.push({ kind: 'corpse', id: String(r.chest_id) });
+    }
+
+    for (const r of this.stmtBones.all(this.worldId, levelId, x, y) as any[]) {
+      out.push({ kind: 'bones', id: String(r.drop_id), qty: Number(r.qty) });
+    }
+
+    for (const r of this.stmtMonsters.all(this.worldId, levelId, x, y) as any[]) {
+      out.push({ kind: 'monster', id: String(r.entity_id), defId: String(r.def_id), hp: Number(r.hp) });
+    }
+
+    return out;
+  }
+}
@@ -0,0 +1,130 @@
+// server/src/invariants_check.ts
+//
+// Runs the engine maze invariant checker (I3/I4) against a live SQLite world.
+//
+// Usage (from server/):
+//   npm run invariants:check -- level=1 x0=-32 y0=-32 x1=32 y1=32 [world=<world_id>] [source=world|overlay]
+//
+// source=world   (default) overlays merged over the generated base, as players see it
+// source=overlay only stored edge_overrides rows; missing rows read as walls
+import Database from 'better-sqlite3';
+import { CONFIG } from './config.js';
+import { DbOverlayProvider } from './overlays.js';
+import { checkInvariants, WorldEngine } from '@infinite-dungeon/engine';
+import type { Dir, EdgeSource, EdgeType } from '@infinite-dungeon/engine';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const a of argv) {
+    const i = a.indexOf('=');
+    if (i > 0) out[a.slice(0, i)] = a.slice(i + 1);
+  }
+  return out;
+}
+
+function intArg(args: Record<string, string>, name: string, fallback: number): number {
+  const n = Number(args[name] ?? fallback);
+  if (!Number.isInteger(n)) throw new Error(`${name} must be an integer`);
+  return n;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const levelId = intArg(args, 'level', 1);
+const x0 = intArg(args, 'x0', -32);
+const y0 = intArg(args, 'y0', -32);
+const x1 = intArg(args, 'x1', 32);
+const y1 = intArg(args, 'y1', 32);
+const sourceKind = args.source === 'overlay' ? 'overlay' : 'world';
+
+const db = new Database(CONFIG.dbPath, { fileMustExist: true });
+try {
+  const worldRow = (
+    args.world
+      ? db.prepare('SELECT world_id, seed, generator_version FROM worlds WHERE world_id = ? LIMIT 1').get(args.world)
+      : db.prepare('SELECT world_id, seed, generator_version FROM worlds ORDER BY created_at_ms ASC LIMIT 1').get()
+  ) as any;
+  if (!worldRow?.world_id) throw new Error('world not found');
+  const worldId = String(worldRow.world_id);
+
+  // Room flags from stored cell meta (hub_room/room, town shop/temple zones); anything else is corridor.
+  const roomCells = new Set<string>();
+  const storedCells = new Set<string>();
+  const cellRows = db
+    .prepare(
+      `
+      SELECT x, y, override_json
+      FROM cell_overrides
+      WHERE world_id = ?
+        AND level_id = ?
+        AND x BETWEEN ? AND ?
+        AND y BETWEEN ? AND ?
+    `
+    )
+    .all(worldId, levelId, x0 - 1, x1 + 1, y0 - 1, y1 + 1) as any[];
+  for (const r of cellRows) {
+    const k = `${Number(r.x)},${Number(r.y)}`;
+    storedCells.add(k);
+    try {
+      const j = JSON.parse(String(r.override_json));
+      if (j?.kind === 'hub_room' || j?.kind === 'room' || (j?.kind === 'town' && j.zone)) roomCells.add(k);
+    } catch {}
+  }
+
+  let src: EdgeSource;
+  if (sourceKind === 'overlay') {
+    const edges = new Map<string, EdgeType>();
+    const edgeRows = db
+      .prepare(
+        `
+        SELECT x, y, dir, edge_type
+        FROM edge_overrides
+        WHERE world_id = ?
+          AND level_id = ?
+          AND x BETWEEN ? AND ?
+          AND y BETWEEN ? AND ?
+      `
+      )
+      .all(worldId, levelId, x0 - 1, x1 + 1, y0 - 1, y1 + 1) as any[];
+    for (const r of edgeRows) {
+      if (r.edge_type) edges.set(`${Number(r.x)},${Number(r.y)},${String(r.dir)}`, String(r.edge_type) as EdgeType);
+    }
+
+    src = {
+      edgeType: (x: number, y: number, dir: Dir) => edges.get(`${x},${y},${dir}`) ?? 'wall',
+      isRoom: (x: number, y: number) => roomCells.has(`${x},${y}`)
+    };
+  } else {
+    // 'minimap' purpose: read-only (no hub seeding, no frontier materialization).
+    const engine = new WorldEngine({
+      seed: Number(worldRow.seed),
+      generatorVersion: String(worldRow.generator_version),
+      overlay: new DbOverlayProvider(db, worldId),
+      discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+      time: { nowMs: () => Date.now() }
+    });
+
+    src = {
+      edgeType: (x: number, y: number, dir: Dir) => engine.edgeType(levelId, x, y, dir, 'minimap'),
+      isRoom: (x: number, y: number) => {
+        const k = `${x},${y}`;
+        return storedCells.has(k) ? roomCells.has(k) : engine.baseIsRoom(levelId, x, y);
+      }
+    };
+  }
+
+  const report = checkInvariants(src, { x: x0, y: y0, w: x1 - x0 + 1, h: y1 - y0 + 1 });
+
+  console.log('DB PATH:', CONFIG.dbPath);
+  console.log(`world=${worldId} level=${levelId} rect=(${x0},${y0})..(${x1},${y1}) source=${sourceKind}`);
+  console.log(`carved cells: ${report.carvedCells}  secret pockets: ${report.pockets}`);
+
+  console.log('\n=== VIOLATIONS ===');
+  if (report.violations.length === 0) {
+    console.log('OK: no invariant violations in this region.');
+  } else {
+    for (const v of report.violations) console.log(`- ${JSON.stringify(v)}`);
+    process.exitCode = 1;
+  }
+} finally {
+  db.close();
+}
@@ -0,0 +1,74 @@
+// server/src/lock_admin.ts
+//
+// Admin override of a door lock (SPEC_LOCKS.md "Admin overrides"). Applies through the same
+// state machine as gameplay and prints the door_lock_state_changed event it emits.
+//
+// Usage (from server/):
+//   npm run lock:set -- level=1 x=3 y=4 dir=E [locked=true|false] [difficulty=<int>] [key_monster=<entity_id>|null] [world=<world_id>]
+import Database from 'better-sqlite3';
+import { CONFIG } from './config.js';
+import { DbOverlayProvider } from './overlays.js';
+import { onWorldEvent } from './events.js';
+import { changeDoorLock } from './locks.js';
+import { WorldEngine } from '@infinite-dungeon/engine';
+import type { Dir } from '@infinite-dungeon/engine';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const a of argv) {
+    const i = a.indexOf('=');
+    if (i > 0) out[a.slice(0, i)] = a.slice(i + 1);
+  }
+  return out;
+}
+
+function intArg(args: Record<string, string>, name: string): number {
+  const n = Number(args[name]);
+  if (!Number.isInteger(n)) throw new Error(`${name} must be an integer`);
+  return n;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const levelId = intArg(args, 'level');
+const x = intArg(args, 'x');
+const y = intArg(args, 'y');
+const dir = args.dir as Dir;
+if (dir !== 'N' && dir !== 'E' && dir !== 'S' && dir !== 'W') throw new Error('dir must be N/E/S/W');
+
+if (args.locked !== undefined && args.locked !== 'true' && args.locked !== 'false') throw new Error('locked must be true or false');
+const locked = args.locked === undefined ? undefined : args.locked === 'true';
+const lockDifficulty = args.difficulty === undefined ? undefined : intArg(args, 'difficulty');
+const keyMonsterEntityId = args.key_monster === undefined ? undefined : args.key_monster === 'null' ? null : args.key_monster;
+
+const db = new Database(CONFIG.dbPath, { fileMustExist: true });
+try {
+  const worldRow = (
+    args.world
+      ? db.prepare('SELECT world_id, seed, generator_version FROM worlds WHERE world_id = ? LIMIT 1').get(args.world)
+      : db.prepare('SELECT world_id, seed, generator_version FROM worlds ORDER BY created_at_ms ASC LIMIT 1').get()
+  ) as any;
+  if (!worldRow?.world_id) throw new Error('world not found');
+  const worldId = String(worldRow.world_id);
+
+  const engine = new WorldEngine({
+    seed: Number(worldRow.seed),
+    generatorVersion: String(worldRow.generator_version),
+    overlay: new DbOverlayProvider(db, worldId),
+    discovery: { markDiscovered: () => {}, getDiscoveredInRadius: () => [] },
+    time: { nowMs: () => Date.now() }
+  });
+
+  onWorldEvent((_w, ev) => console.log(`event: ${JSON.stringify(ev)}`));
+
+  const r = changeDoorLock(db, worldId, engine, { levelId, x, y, dir }, { kind: 'admin', locked, lockDifficulty, keyMonsterEntityId });
+
+  console.log('DB PATH:', CONFIG.dbPath);
+  if (!r.ok) {
+    console.log(`world=${worldId} level=${levelId} (${x},${y}) ${dir}: ${r.reason}`);
+    process.exitCode = 1;
+  } else {
+    console.log(`world=${worldId} level=${levelId} (${x},${y}) ${dir}: ${JSON.stringify(r.state)}${r.changed ? '' : ' (unchanged)'}`);
+  }
+} finally {
+  db.close();
+}
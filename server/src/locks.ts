@@ -0,0 +1,182 @@
+// server/src/locks.ts
+//
+// Lock changes (SPEC_LOCKS.md): load the current state, apply the pure engine transition,
+// persist it and emit door_lock_state_changed / chest_lock_state_changed to the world. Callers
+// changing locks inside a transaction hold those events until it commits (events.ts).
+import type { DB } from './db.js';
+import { DbOverlayProvider } from './overlays.js';
+import { emitWorldEvent } from './events.js';
+import { chestInRange, loadChestLock, saveChestLock } from './chests.js';
+import type { ChestRef } from './chests.js';
+import type { InteractPayload } from './protocol.js';
+import { applyChestLockAction, applyDoorLockAction } from '@infinite-dungeon/engine';
+import type {
+  ChestLockAction,
+  ChestLockState,
+  Dir,
+  DoorLockAction,
+  DoorLockState,
+  PlayerState,
+  WorldEngine
+} from '@infinite-dungeon/engine';
+
+export type DoorRef = { levelId: number; x: number; y: number; dir: Dir };
+
+export function changeDoorLock(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  door: DoorRef,
+  action: DoorLockAction
+): { ok: true; state: DoorLockState; changed: boolean } | { ok: false; reason: string } {
+  const current = engine.doorLockAt(door.levelId, door.x, door.y, door.dir);
+  if (!current) return { ok: false, reason: 'not_a_door' };
+
+  const r = applyDoorLockAction(current, action);
+  if (!r.ok) return r;
+  if (!r.changed) return { ok: true, state: r.state, changed: false };
+
+  new DbOverlayProvider(db, worldId).setDoorLockState(door.levelId, door.x, door.y, door.dir, r.state);
+
+  emitWorldEvent(worldId, {
+    kind: 'door_lock_state_changed',
+    data: { level_id: door.levelId, x: door.x, y: door.y, dir: door.dir, locked: r.state.locked, reason: r.reason }
+  });
+
+  return { ok: true, state: r.state, changed: true };
+}
+
+export function changeChestLock(
+  db: DB,
+  worldId: string,
+  chest: ChestRef,
+  action: ChestLockAction
+): { ok: true; state: ChestLockState; changed: boolean } | { ok: false; reason: string } {
+  const current = loadChestLock(db, worldId, chest);
+  if (!current) return { ok: false, reason: 'no_chest' };
+
+  const r = applyChestLockAction(current, action);
+  if (!r.ok) return r;
+  if (!r.changed) return { ok: true, state: r.state, changed: false };
+
+  saveChestLock(db, worldId, chest, r.state);
+
+  emitWorldEvent(worldId, {
+    kind: 'chest_lock_state_changed',
+    data: { chest_id: chest.chestId, locked: r.state.locked, reason: r.reason }
+  });
+
+  return { ok: true, state: r.state, changed: true };
+}
+
+/**
+ * LOCKPICK intent (V2): the door must be an edge of the player's cell; the chest must be on a
+ * visible cell within INTERACT_RANGE. Skill vs difficulty is checked by the state machine.
+ */
+export function lockpick(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  player: PlayerState,
+  target: Extract<InteractPayload, { action: 'lockpick' }>['target'],
+  skill: number
+): { ok: true; locked: boolean } | { ok: false; reason: string } {
+  if (target.kind === 'edge') {
+    const door: DoorRef = { levelId: player.levelId, x: player.x, y: player.y, dir: target.dir };
+    const r = changeDoorLock(db, worldId, engine, door, { kind: 'lockpick', skill });
+    return r.ok ? { ok: true, locked: r.state.locked } : r;
+  }
+
+  const chest = chestInRange(engine, player, target.chest_id);
+  if (!chest) return { ok: false, reason: 'not_in_range' };
+
+  const r = changeChestLock(db, worldId, chest, { kind: 'lockpick', skill });
+  return r.ok ? { ok: true, locked: r.state.locked } : r;
+}
+
+/**
+ * Entities currently holding a locked door or chest (they despawn on the longer key timer).
+ */
+export function keyMonsterIds(db: DB, worldId: string): Set<string> {
+  const rows = db
+    .prepare(
+      `
+      SELECT json_extract(lock_state_json, '$.key_monster_entity_id') AS entity_id
+      FROM edge_overrides
+      WHERE world_id = ?
+        AND edge_type = 'door_locked'
+      UNION
+      SELECT key_monster_entity_id AS entity_id
+      FROM loot_chests
+      WHERE world_id = ?
+        AND locked = 1
+      UNION
+      SELECT json_extract(f.value, '$.key_monster_entity_id') AS entity_id
+      FROM cell_overrides c, json_each(c.override_json, '$.features') f
+      WHERE c.world_id = ?
+        AND json_extract(f.value, '$.kind') = 'chest'
+        AND json_extract(f.value, '$.locked') = 1
+    `
+    )
+    .all(worldId, worldId, worldId) as any[];
+  return new Set(rows.map((r) => r.entity_id).filter((v): v is string => typeof v === 'string'));
+}
+
+/**
+ * A key-monster left the world: KILL (D2/C2) or DESPAWN (D3/C3) for every door and chest
+ * linked to it. Chests ignore DESPAWN, so only a kill opens them. Returns what unlocked.
+ */
+export function releaseKeyMonsterLocks(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  entityId: string,
+  how: 'killed' | 'despawned'
+): { doors: DoorRef[]; chests: ChestRef[] } {
+  const action = { kind: how === 'killed' ? 'key_monster_killed' : 'key_monster_despawned', entityId } as const;
+
+  const doorRows = db
+    .prepare(
+      `
+      SELECT level_id, x, y, dir
+      FROM edge_overrides
+      WHERE world_id = ?
+        AND json_extract(lock_state_json, '$.key_monster_entity_id') = ?
+    `
+    )
+    .all(worldId, entityId) as any[];
+
+  const chestRows = db
+    .prepare(
+      `
+      SELECT chest_id, level_id, x, y
+      FROM loot_chests
+      WHERE world_id = ?
+        AND key_monster_entity_id = ?
+      UNION ALL
+      SELECT json_extract(f.value, '$.id') AS chest_id, c.level_id, c.x, c.y
+      FROM cell_overrides c, json_each(c.override_json, '$.features') f
+      WHERE c.world_id = ?
+        AND json_extract(f.value, '$.kind') = 'chest'
+        AND json_extract(f.value, '$.key_monster_entity_id') = ?
+    `
+    )
+    .all(worldId, entityId, worldId, entityId) as any[];
+
+  const doors: DoorRef[] = [];
+  for (const r of doorRows) {
+    const door: DoorRef = { levelId: Number(r.level_id), x: Number(r.x), y: Number(r.y), dir: String(r.dir) as Dir };
+    // Both sides of an edge are stored; the second one is already unlocked (not_locked).
+    const res = changeDoorLock(db, worldId, engine, door, action);
+    if (res.ok && res.changed) doors.push(door);
+  }
+
+  const chests: ChestRef[] = [];
+  for (const r of chestRows) {
+    const chest: ChestRef = { chestId: String(r.chest_id), levelId: Number(r.level_id), x: Number(r.x), y: Number(r.y) };
+    const res = changeChestLock(db, worldId, chest, action);
+    if (res.ok && res.changed) chests.push(chest);
+  }
+
+  return { doors, chests };
+}
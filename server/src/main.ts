@@ -5,6 +5,7 @@ import express from 'express';
 import { CONFIG } from './config.js';
 import { openDb } from './db.js';
 import { attachWs } from './ws.js';
+import { SimulationScheduler } from './scheduler.js';
 import { devLogin } from './auth.js';
 
 const app = express();
@@ -29,7 +30,11 @@ app.get('/health', (_req, res) => {
 });
 
 const server = http.createServer(app);
-attachWs(server, db);
+const presence = attachWs(server, db);
+
+// Monsters, despawn timers and chest spawns; paused per world while nobody is connected.
+const simulation = new SimulationScheduler(db, presence);
+simulation.start();
 
 server.listen(CONFIG.port, () => {
   console.log(`server listening on http://localhost:${CONFIG.port}`);
@@ -1,9 +1,17 @@
 // server/src/overlays.ts
 import type { DB } from './db.js';
 import { id } from './ids.js';
-import type { Dir, EdgeOverride, EdgeQueryPurpose, EdgeType } from '@infinite-dungeon/engine';
-
-type CellKind = 'hub_room' | 'room' | 'corridor';
+import {
+  CURRENT_GENERATOR_VERSION,
+  doorEdgeType,
+  getGenerator,
+  parseDoorLockState,
+  serializeDoorLockState,
+  TOWN_LEVEL_ID
+} from '@infinite-dungeon/engine';
+import type { Dir, DoorLockState, EdgeOverride, EdgeQueryPurpose, EdgeType, GeneratorSpec } from '@infinite-dungeon/engine';
+
+type CellKind = 'hub_room' | 'room' | 'corridor' | 'town';
 
 type CellMeta = {
   kind: CellKind;
@@ -109,17 +117,20 @@ class Rng32 {
 
 export class DbOverlayProvider {
   private readonly seed: number;
+  private readonly generator: GeneratorSpec;
 
   private readonly stmtGetEdge;
   private readonly stmtUpsertEdge;
+  private readonly stmtUpsertEdgeLock;
   private readonly stmtGetCell;
   private readonly stmtUpsertCell;
 
   constructor(private readonly db: DB, private readonly worldId: string) {
-    const row = this.db.prepare('SELECT seed FROM worlds WHERE world_id = ? LIMIT 1').get(this.worldId) as any;
+    const row = this.db.prepare('SELECT seed, generator_version FROM worlds WHERE world_id = ? LIMIT 1').get(this.worldId) as any;
     const s = row?.seed;
     const n = typeof s === 'number' ? s : Number(s);
     this.seed = Number.isFinite(n) ? n : 12345;
+    this.generator = getGenerator(row?.generator_version ? String(row.generator_version) : CURRENT_GENERATOR_VERSION);
 
     this.stmtGetEdge = this.db.prepare(
       `
@@ -143,6 +154,15 @@ export class DbOverlayProvider {
       `
     );
 
+    this.stmtUpsertEdgeLock = this.db.prepare(
+      `
+        INSERT OR REPLACE INTO edge_overrides
+          (world_id, level_id, x, y, dir, edge_type, lock_state_json, override_json, updated_at_ms)
+        VALUES
+          (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `
+    );
+
     this.stmtGetCell = this.db.prepare(
       `
         SELECT override_json
@@ -166,6 +186,11 @@ export class DbOverlayProvider {
   }
 
   getEdgeOverride(levelId: number, x: number, y: number, dir: Dir, purpose: EdgeQueryPurpose = 'movement'): EdgeOverride | null {
+    // Town is authored (town:import): no hub seeding, no frontier expansion.
+    if (levelId === TOWN_LEVEL_ID) {
+      return this.toOverride(this.stmtGetEdge.get(this.worldId, levelId, x, y, dir));
+    }
+
     if (purpose !== 'minimap') this.ensureSeedHub(levelId);
 
     // If a frontier door exists and this is a MOVEMENT query, materialize the destination deterministically.
@@ -182,9 +207,30 @@ export class DbOverlayProvider {
       }
     }
 
-    const row = this.stmtGetEdge.get(this.worldId, levelId, x, y, dir) as any;
-    if (row?.edge_type) return { edgeType: String(row.edge_type) as EdgeType };
-    return null;
+    return this.toOverride(this.stmtGetEdge.get(this.worldId, levelId, x, y, dir));
+  }
+
+  /**
+   * Persists a door's lock state on both sides of the edge (edge_type follows `locked`).
+   * Existing edge meta (doorId, frontier) is kept.
+   */
+  setDoorLockState(levelId: number, x: number, y: number, dir: Dir, state: DoorLockState): void {
+    const now = Date.now();
+    const n = step(x, y, dir);
+    const edgeType = doorEdgeType(state);
+    const lockJson = serializeDoorLockState(state);
+
+    const tx = this.db.transaction(() => {
+      for (const [ex, ey, ed] of [
+        [x, y, dir],
+        [n.nx, n.ny, opposite(dir)]
+      ] as const) {
+        const row = this.stmtGetEdge.get(this.worldId, levelId, ex, ey, ed) as any;
+        const metaJson = JSON.stringify(this.parseEdgeMeta(row?.override_json));
+        this.stmtUpsertEdgeLock.run(this.worldId, levelId, ex, ey, ed, edgeType, lockJson, metaJson, now);
+      }
+    });
+    tx();
   }
 
   // ---------------- Seed hub (2x2) ----------------
@@ -240,12 +286,12 @@ export class DbOverlayProvider {
       }
 
       // Deterministic hub doors (frontier)
-      const rng = new Rng32(hashU32([this.seed, this.worldId, levelId, 'hub_doors_v1']));
+      const rng = new Rng32(hashU32([this.seed, this.worldId, levelId, this.generator.hubDoorsLabel]));
       const candidates = perimeter.slice();
       rng.shuffleInPlace(candidates);
 
       // 1-2 doors
-      const doorCount = rng.float01() < 0.35 ? 2 : 1;
+      const doorCount = rng.float01() < this.generator.profile(levelId).expander.hubSecondDoorChance ? 2 : 1;
       let written = 0;
 
       for (const c of candidates) {
@@ -288,7 +334,7 @@ export class DbOverlayProvider {
 
     const srcMeta = this.getCellMeta(levelId, x, y);
 
-    const rng = new Rng32(hashU32([this.seed, this.worldId, levelId, x, y, dir, 'expand_v1']));
+    const rng = new Rng32(hashU32([this.seed, this.worldId, levelId, x, y, dir, this.generator.expandLabel]));
 
     const tx = this.db.transaction(() => {
       // Re-check inside tx
@@ -308,7 +354,7 @@ export class DbOverlayProvider {
       let target: CellKind = 'corridor';
       if (!forceCorridor) {
         // corridor can branch into corridor or a room
-        target = rng.float01() < 0.72 ? 'corridor' : 'room';
+        target = rng.float01() < this.generator.profile(levelId).expander.corridorChance ? 'corridor' : 'room';
       }
 
       if (target === 'room') {
@@ -345,7 +391,9 @@ export class DbOverlayProvider {
     const candidates = dirs.filter((d) => d !== cameFrom);
     rng.shuffleInPlace(candidates);
 
-    const exits = rng.float01() < 0.20 ? 2 : rng.float01() < 0.70 ? 1 : 0;
+    // Exit odds scale with depth (profile); doors_v1 keeps 20% two / 70% one.
+    const odds = this.generator.profile(levelId).expander;
+    const exits = rng.float01() < odds.twoExitChance ? 2 : rng.float01() < odds.oneExitChance ? 1 : 0;
 
     const exitSet = new Set<Dir>();
     for (let i = 0; i < exits; i++) exitSet.add(candidates[i]!);
@@ -459,7 +507,7 @@ export class DbOverlayProvider {
     this.writeEdgeBothWays(levelId, fromX, fromY, dir, 'door_unlocked', { doorId, frontier: false }, now);
 
     // Optional extra frontier door on a different perimeter edge (to keep exploration going)
-    if (rng.float01() < 0.55) {
+    if (rng.float01() < this.generator.profile(levelId).expander.roomExtraDoorChance) {
       const doorCandidates = perimeterEdges.filter((p) => !(p.x === ex && p.y === ey && p.dir === opposite(dir)));
       rng.shuffleInPlace(doorCandidates);
 
@@ -485,13 +533,26 @@ export class DbOverlayProvider {
 
     try {
       const j = JSON.parse(String(row.override_json)) as Partial<CellMeta>;
-      if (j && (j.kind === 'hub_room' || j.kind === 'room' || j.kind === 'corridor') && typeof j.areaId === 'string') {
+      if (j && (j.kind === 'hub_room' || j.kind === 'room' || j.kind === 'corridor' || j.kind === 'town') && typeof j.areaId === 'string') {
         return { kind: j.kind, areaId: j.areaId };
       }
     } catch {}
     return null;
   }
 
+  private toOverride(row: any): EdgeOverride | null {
+    if (!row?.edge_type) return null;
+    const out: EdgeOverride = { edgeType: String(row.edge_type) as EdgeType };
+
+    const lock = parseDoorLockState(row.lock_state_json);
+    if (lock) {
+      out.lockDifficulty = lock.lockDifficulty;
+      out.keyMonsterEntityId = lock.keyMonsterEntityId;
+      out.defaultStateOnReset = lock.defaultStateOnReset;
+    }
+    return out;
+  }
+
   private parseEdgeMeta(v: any): EdgeMeta {
     if (!v) return {};
     try {
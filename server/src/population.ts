@@ -0,0 +1,87 @@
+// server/src/population.ts
+//
+// Per-level population controller (SIMULATION_RULES.md "Population controller"). Runs once per
+// tick for every level with a connected player; the engine decides, this side supplies counts
+// and positions, inserts the spawn and logs the decision.
+import type { DB } from './db.js';
+import { DbEntityStore } from './entities.js';
+import { id } from './ids.js';
+import type { ActivePlayer } from './simulation.js';
+import { ACTIVE_RADIUS_TILES, DENSITY_RADIUS_TILES, monsterDef, newMonster, planPopulation } from '@infinite-dungeon/engine';
+import type { Entity, PopulationDecision, WorldEngine } from '@infinite-dungeon/engine';
+
+export class PopulationController {
+  private readonly stmtCount;
+  // Last skip reason per world/level: a level sitting at target would otherwise log 4x a second.
+  private readonly lastSkip = new Map<string, string>();
+
+  constructor(private readonly db: DB) {
+    this.stmtCount = this.db.prepare(
+      `
+        SELECT COUNT(*) AS n
+        FROM entities
+        WHERE world_id = ?
+          AND level_id = ?
+          AND type = 'monster'
+      `
+    );
+  }
+
+  /**
+   * One decision per occupied level. Returns the monsters spawned this tick.
+   */
+  run(worldId: string, engine: WorldEngine, players: ActivePlayer[], nowMs: number, rng: () => number = Math.random): Entity[] {
+    const byLevel = new Map<number, ActivePlayer[]>();
+    for (const p of players) byLevel.set(p.levelId, [...(byLevel.get(p.levelId) ?? []), p]);
+
+    const store = new DbEntityStore(this.db, worldId);
+    const spawned: Entity[] = [];
+
+    for (const [levelId, onLevel] of byLevel) {
+      const nearbyById = new Map<string, Entity>();
+      for (const p of onLevel) {
+        for (const e of store.inRadius(levelId, p.x, p.y, ACTIVE_RADIUS_TILES + DENSITY_RADIUS_TILES)) nearbyById.set(e.entityId, e);
+      }
+      const nearby = Array.from(nearbyById.values());
+      const occupied = new Set([...onLevel, ...nearby].map((c) => `${c.x},${c.y}`));
+
+      const decision = planPopulation({
+        world: engine,
+        levelId,
+        players: onLevel,
+        population: Number((this.stmtCount.get(worldId, levelId) as any).n),
+        nearby: nearby.filter((e) => e.type === 'monster'),
+        isOccupied: (x, y) => occupied.has(`${x},${y}`),
+        rng
+      });
+
+      this.log(worldId, decision);
+      if (decision.action !== 'spawn') continue;
+
+      const e = newMonster(id('e'), monsterDef(decision.defId)!, { levelId, x: decision.x, y: decision.y });
+      store.insert(e, nowMs);
+      spawned.push(e);
+    }
+
+    return spawned;
+  }
+
+  private log(worldId: string, d: PopulationDecision): void {
+    const key = `${worldId}:${d.levelId}`;
+    const head = `[population] world=${worldId} level=${d.levelId} players=${d.activePlayers} pop=${d.population} target=${d.target} max=${d.max}`;
+
+    if (d.action === 'spawn') {
+      this.lastSkip.delete(key);
+      console.log(`${head} spawn def=${d.defId} x=${d.x} y=${d.y}`);
+      return;
+    }
+
+    const rejected = d.rejected
+      ? ` outside=${d.rejected.outside} solid=${d.rejected.solid} occupied=${d.rejected.occupied}` +
+        ` visible=${d.rejected.visible} density=${d.rejected.density}`
+      : '';
+    if (this.lastSkip.get(key) === d.reason) return;
+    this.lastSkip.set(key, d.reason);
+    console.log(`${head} skip reason=${d.reason}${rejected}`);
+  }
+}
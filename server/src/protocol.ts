@@ -1,13 +1,45 @@
 // server/src/protocol.ts
 import type { Dir } from '@infinite-dungeon/engine';
+import type { TravelTarget } from './travel.js';
+
+// Context actions on the player's current cell.
+export type InteractAction = 'climb' | 'jump' | 'detect' | 'lockpick' | 'open' | 'loot' | 'pickup_bones' | 'bury_bones';
+
+// Object an interact action is aimed at: a door edge of the player's cell, or a chest, corpse or bones in range.
+export type InteractTarget =
+  | { kind: 'edge'; dir: Dir }
+  | { kind: 'chest'; chest_id: string }
+  | { kind: 'corpse'; chest_id: string }
+  | { kind: 'bones'; drop_id: string };
+
+const INTERACT_ACTIONS: ReadonlySet<string> = new Set<InteractAction>([
+  'climb',
+  'jump',
+  'detect',
+  'lockpick',
+  'open',
+  'loot',
+  'pickup_bones',
+  'bury_bones'
+]);
+
+// Keyed on action: the targeted actions always carry a target of the kind they act on.
+export type InteractPayload =
+  | { action: 'climb' | 'jump' | 'detect' }
+  | { action: 'lockpick'; target: Extract<InteractTarget, { kind: 'edge' | 'chest' }> }
+  | { action: 'open'; target: Extract<InteractTarget, { kind: 'chest' }> }
+  | { action: 'loot'; target: Extract<InteractTarget, { kind: 'corpse' }> }
+  | { action: 'pickup_bones' | 'bury_bones'; target: Extract<InteractTarget, { kind: 'bones' }> };
 
 type ClientMsg =
   | { seq: number; type: 'auth'; payload: { session_token: string } }
   | { seq: number; type: 'move'; payload: { dir: Dir | 'F' | 'B' } }
   | { seq: number; type: 'turn'; payload: { face: Dir } }
   | { seq: number; type: 'join_world'; payload: { world_id: string } }
-  | { seq: number; type: 'interact'; payload: any }
-  | { seq: number; type: 'use_egg'; payload: any };
+  | { seq: number; type: 'interact'; payload: InteractPayload }
+  | { seq: number; type: 'travel_to'; payload: { target: TravelTarget } }
+  | { seq: number; type: 'attack'; payload: Record<string, never> }
+  | { seq: number; type: 'use_egg'; payload: Record<string, never> };
 
 function isRecord(v: any): v is Record<string, any> {
   return !!v && typeof v === 'object' && !Array.isArray(v);
@@ -53,11 +85,54 @@ export function safeParseClient(input: any): { ok: true; msg: ClientMsg } | { ok
   }
 
   if (type === 'interact') {
-    return { ok: true, msg: { seq, type: 'interact', payload } };
+    const a = payload.action;
+    if (typeof a !== 'string' || !INTERACT_ACTIONS.has(a)) {
+      return { ok: false, err: `interact.action must be one of ${Array.from(INTERACT_ACTIONS).join('/')}` };
+    }
+    const action = a as InteractAction;
+    if (action === 'climb' || action === 'jump' || action === 'detect') {
+      return { ok: true, msg: { seq, type: 'interact', payload: { action } } };
+    }
+
+    const t = payload.target;
+    if (action === 'loot') {
+      if (isRecord(t) && t.kind === 'corpse' && typeof t.chest_id === 'string' && t.chest_id) {
+        return { ok: true, msg: { seq, type: 'interact', payload: { action, target: { kind: 'corpse', chest_id: t.chest_id } } } };
+      }
+      return { ok: false, err: "interact.target must be {kind:'corpse',chest_id} for loot" };
+    }
+    if (action === 'pickup_bones' || action === 'bury_bones') {
+      if (isRecord(t) && t.kind === 'bones' && typeof t.drop_id === 'string' && t.drop_id) {
+        return { ok: true, msg: { seq, type: 'interact', payload: { action, target: { kind: 'bones', drop_id: t.drop_id } } } };
+      }
+      return { ok: false, err: `interact.target must be {kind:'bones',drop_id} for ${a}` };
+    }
+    if (action !== 'open' && isRecord(t) && t.kind === 'edge' && isDir(t.dir)) {
+      return { ok: true, msg: { seq, type: 'interact', payload: { action, target: { kind: 'edge', dir: t.dir } } } };
+    }
+    if (isRecord(t) && t.kind === 'chest' && typeof t.chest_id === 'string' && t.chest_id) {
+      return { ok: true, msg: { seq, type: 'interact', payload: { action, target: { kind: 'chest', chest_id: t.chest_id } } } };
+    }
+    if (action === 'open') return { ok: false, err: "interact.target must be {kind:'chest',chest_id} for open" };
+    return { ok: false, err: `interact.target must be {kind:'edge',dir} or {kind:'chest',chest_id} for ${a}` };
+  }
+
+  if (type === 'travel_to') {
+    const t = payload.target;
+    if (t === 'hub') return { ok: true, msg: { seq, type: 'travel_to', payload: { target: 'hub' } } };
+    if (isRecord(t) && Number.isInteger(t.x) && Number.isInteger(t.y)) {
+      return { ok: true, msg: { seq, type: 'travel_to', payload: { target: { x: t.x, y: t.y } } } };
+    }
+    return { ok: false, err: "travel_to.target must be 'hub' or {x,y}" };
+  }
+
+  // Always the entity in the faced adjacent cell: nothing to pick.
+  if (type === 'attack') {
+    return { ok: true, msg: { seq, type: 'attack', payload: {} } };
   }
 
   if (type === 'use_egg') {
-    return { ok: true, msg: { seq, type: 'use_egg', payload } };
+    return { ok: true, msg: { seq, type: 'use_egg', payload: {} } };
   }
 
   return { ok: false, err: `unknown type: ${type}` };
@@ -0,0 +1,49 @@
+// server/src/reveals.ts
+import type { DB } from './db.js';
+
+/**
+ * Per-character LoS reveals (player_reveals). Permanent once written; never touches
+ * discovered_cells_global.
+ */
+export class DbRevealProvider {
+  constructor(
+    private db: DB,
+    private worldId: string,
+    private characterId: string
+  ) {}
+
+  markRevealed(levelId: number, cells: Array<{ x: number; y: number }>, atMs: number): void {
+    if (cells.length === 0) return;
+
+    // Keep the first reveal time; a cell is revealed once.
+    const stmt = this.db.prepare(
+      `
+      INSERT INTO player_reveals (character_id, world_id, level_id, x, y, revealed_at_ms)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(character_id, world_id, level_id, x, y) DO NOTHING
+    `
+    );
+    this.db.transaction(() => {
+      for (const c of cells) stmt.run(this.characterId, this.worldId, levelId, c.x, c.y, atMs);
+    })();
+  }
+
+  getRevealedInRadius(levelId: number, cx: number, cy: number, radius: number): Array<{ x: number; y: number }> {
+    const rows = this.db
+      .prepare(
+        `
+        SELECT x, y
+        FROM player_reveals
+        WHERE character_id = ?
+          AND world_id = ?
+          AND level_id = ?
+          AND x BETWEEN ? AND ?
+          AND y BETWEEN ? AND ?
+        ORDER BY y ASC, x ASC
+      `
+      )
+      .all(this.characterId, this.worldId, levelId, cx - radius, cx + radius, cy - radius, cy + radius) as any[];
+
+    return rows.map((r) => ({ x: Number(r.x), y: Number(r.y) }));
+  }
+}
@@ -0,0 +1,184 @@
+// server/src/scheduler.ts
+//
+// Per-world simulation scheduler (SIMULATION_RULES.md "Tick model", "Soft pause and catch-up").
+//
+// One interval at TICK_MS drives every world with a connected player: population, AI and monster
+// attacks every tick, despawn timers and combat timeouts every second, chest spawn checks every
+// few seconds. A world whose last player leaves is paused (nothing runs) and its pause time is
+// persisted in world_simulation; when a player comes back the missed timers are caught up once
+// instead of replaying ticks.
+import type { DB } from './db.js';
+import { emitWorldEvent } from './events.js';
+import { runChestChecks } from './chests.js';
+import { clearStaleCombat } from './combat.js';
+import { PopulationController } from './population.js';
+import { catchUpDespawns, runDespawnTimers, simulateTick } from './simulation.js';
+import type { ActivePlayer, CharacterHit, EntityMove } from './simulation.js';
+import { getWorldGen, makeEngine } from './world_engine.js';
+import { activeChunks, TICK_MS } from '@infinite-dungeon/engine';
+import type { Entity, WorldEngine } from '@infinite-dungeon/engine';
+
+// How often the chest spawner looks at active chunks; checks themselves are due every 30 min.
+const CHEST_SPAWNER_POLL_MS = 5000;
+
+// Despawn timers run in minutes; a once-a-second sweep is precise enough. last_simulated_at_ms
+// is persisted on the same beat, so a crash loses at most a second of catch-up.
+const DESPAWN_SWEEP_MS = 1000;
+
+/**
+ * Who is connected, and how to tell them about monster moves and hits (implemented by the ws layer).
+ */
+export interface SimulationPresence {
+  // Connected characters per world; worlds missing here are paused.
+  playersByWorld(): Map<string, ActivePlayer[]>;
+  // Entities changed cell this tick: refresh the views of players near either end.
+  entitiesMoved(worldId: string, moves: EntityMove[]): void;
+  // Characters took damage (or died and were resurrected): refresh their own views.
+  charactersHit(worldId: string, hits: CharacterHit[]): void;
+}
+
+type RunningWorld = { nextSweepAtMs: number; nextChestPollAtMs: number };
+
+export class SimulationScheduler {
+  private readonly running = new Map<string, RunningWorld>();
+  private readonly population: PopulationController;
+  private readonly stmtGetLast;
+  private readonly stmtSetLast;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly db: DB,
+    private readonly presence: SimulationPresence
+  ) {
+    this.population = new PopulationController(db);
+
+    this.stmtGetLast = this.db.prepare(
+      `
+        SELECT last_simulated_at_ms
+        FROM world_simulation
+        WHERE world_id = ?
+        LIMIT 1
+      `
+    );
+
+    this.stmtSetLast = this.db.prepare(
+      `
+        INSERT INTO world_simulation (world_id, last_simulated_at_ms)
+        VALUES (?, ?)
+        ON CONFLICT(world_id) DO UPDATE SET last_simulated_at_ms = excluded.last_simulated_at_ms
+      `
+    );
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(Date.now()), TICK_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Stops ticking and records every running world as paused now.
+   */
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    const now = Date.now();
+    for (const worldId of Array.from(this.running.keys())) this.pause(worldId, now);
+  }
+
+  tick(nowMs: number): void {
+    // Runs from an interval: a throw here would take the whole server down, so skip the tick instead.
+    let present: Map<string, ActivePlayer[]>;
+    try {
+      present = this.presence.playersByWorld();
+    } catch (e: any) {
+      console.warn(`[sim] presence failed: ${String(e?.message ?? e)}`);
+      return;
+    }
+
+    for (const worldId of Array.from(this.running.keys())) {
+      if (!present.has(worldId)) this.pause(worldId, nowMs);
+    }
+
+    for (const [worldId, players] of present) {
+      try {
+        const engine = makeEngine(this.db, worldId);
+        const w = this.running.get(worldId) ?? this.resume(worldId, engine, players, nowMs);
+        this.step(worldId, w, engine, players, nowMs);
+      } catch (e: any) {
+        console.warn(`[sim] tick failed world=${worldId}: ${String(e?.message ?? e)}`);
+      }
+    }
+  }
+
+  private pause(worldId: string, nowMs: number): void {
+    this.running.delete(worldId);
+    this.stmtSetLast.run(worldId, nowMs);
+    console.log(`[sim] world=${worldId} paused`);
+  }
+
+  // First player back: catch up on what should have happened while paused, then run normally.
+  private resume(worldId: string, engine: WorldEngine, players: ActivePlayer[], nowMs: number): RunningWorld {
+    const row = this.stmtGetLast.get(worldId) as any;
+    const pausedAtMs = row ? Number(row.last_simulated_at_ms) : null;
+
+    if (pausedAtMs !== null && pausedAtMs < nowMs) {
+      const despawned = catchUpDespawns(this.db, worldId, engine, pausedAtMs, nowMs);
+      this.announceDespawns(worldId, despawned);
+      // Opened chests past their TTL expire world-wide; the active chunks run their missed
+      // spawn checks (quota-capped, so a long absence cannot over-spawn).
+      const chests = this.runChests(worldId, engine, players, nowMs);
+      console.log(
+        `[sim] world=${worldId} resumed offline_ms=${nowMs - pausedAtMs} despawned=${despawned.length} ` +
+          `chests_spawned=${chests.spawned} chests_expired=${chests.expired}`
+      );
+    } else {
+      console.log(`[sim] world=${worldId} started`);
+    }
+
+    this.stmtSetLast.run(worldId, nowMs);
+    const w: RunningWorld = { nextSweepAtMs: nowMs + DESPAWN_SWEEP_MS, nextChestPollAtMs: nowMs + CHEST_SPAWNER_POLL_MS };
+    this.running.set(worldId, w);
+    return w;
+  }
+
+  private step(worldId: string, w: RunningWorld, engine: WorldEngine, players: ActivePlayer[], nowMs: number): void {
+    this.population.run(worldId, engine, players, nowMs);
+    const { moves, hits } = simulateTick(this.db, worldId, engine, players, nowMs);
+    if (moves.length > 0) this.presence.entitiesMoved(worldId, moves);
+    if (hits.length > 0) this.presence.charactersHit(worldId, hits);
+
+    if (nowMs >= w.nextSweepAtMs) {
+      w.nextSweepAtMs = nowMs + DESPAWN_SWEEP_MS;
+      this.announceDespawns(worldId, runDespawnTimers(this.db, worldId, engine, players, nowMs));
+      clearStaleCombat(this.db, worldId, nowMs);
+      this.stmtSetLast.run(worldId, nowMs);
+    }
+
+    if (nowMs >= w.nextChestPollAtMs) {
+      w.nextChestPollAtMs = nowMs + CHEST_SPAWNER_POLL_MS;
+      this.runChests(worldId, engine, players, nowMs);
+    }
+  }
+
+  // Despawns happen out of everyone's sight, so they only go out as events.
+  private announceDespawns(worldId: string, despawned: Entity[]): void {
+    for (const e of despawned) {
+      emitWorldEvent(worldId, {
+        kind: 'entity_despawned',
+        data: { entity_id: e.entityId, def_id: e.defId, level_id: e.levelId, x: e.x, y: e.y }
+      });
+    }
+  }
+
+  private runChests(worldId: string, engine: WorldEngine, players: ActivePlayer[], nowMs: number): { spawned: number; expired: number } {
+    const r = runChestChecks(this.db, worldId, getWorldGen(this.db, worldId).seed, engine, activeChunks(players), nowMs);
+    for (const c of r.spawned) {
+      emitWorldEvent(worldId, { kind: 'chest_spawned', data: { chest_id: c.chestId, level_id: c.levelId, x: c.x, y: c.y } });
+    }
+    for (const c of r.expired) {
+      emitWorldEvent(worldId, { kind: 'chest_expired', data: { chest_id: c.chestId, level_id: c.levelId, x: c.x, y: c.y } });
+    }
+    return { spawned: r.spawned.length, expired: r.expired.length };
+  }
+}
@@ -0,0 +1,157 @@
+// server/src/simulation.ts
+//
+// World simulation tick (SIMULATION_RULES.md "Tick model"): every entity inside an active
+// region (ACTIVE_RADIUS_TILES around a connected player, level-local) gets one AI step.
+// Entities outside active regions are not loaded at all, except by the despawn sweep.
+import type { DB } from './db.js';
+import { DbEntityStore } from './entities.js';
+import { keyMonsterIds, releaseKeyMonsterLocks } from './locks.js';
+import { damageCharacter } from './combat.js';
+import { heldWorldEvents } from './events.js';
+import { ACTIVE_RADIUS_TILES, catchUpDespawnTimer, despawnTimer, isNearPlayer, monsterAttack, tickEntity } from '@infinite-dungeon/engine';
+import type { CellCoord, Entity, WorldEngine } from '@infinite-dungeon/engine';
+
+export type ActivePlayer = { characterId: string; levelId: number; x: number; y: number };
+
+export type EntityMove = { entity: Entity; from: CellCoord };
+
+// A monster hit a character this tick; `died` characters were already resurrected elsewhere.
+export type CharacterHit = { characterId: string; entity: Entity; damage: number; hp: number; died: boolean };
+
+function cellKey(levelId: number, x: number, y: number): string {
+  return `${levelId}:${x}:${y}`;
+}
+
+export function activeEntities(store: DbEntityStore, players: ActivePlayer[]): Entity[] {
+  const byId = new Map<string, Entity>();
+  for (const p of players) {
+    for (const e of store.inRadius(p.levelId, p.x, p.y, ACTIVE_RADIUS_TILES)) byId.set(e.entityId, e);
+  }
+  // Stable order so two monsters racing for a cell resolve the same way each tick.
+  return Array.from(byId.values()).sort((a, b) => (a.entityId < b.entityId ? -1 : a.entityId > b.entityId ? 1 : 0));
+}
+
+/**
+ * One tick for one world: AI step, then retaliation for monsters next to their target.
+ * Returns the entities that changed cell and the characters hit (for view refreshes).
+ */
+export function simulateTick(
+  db: DB,
+  worldId: string,
+  engine: WorldEngine,
+  players: ActivePlayer[],
+  nowMs: number,
+  rng: () => number = Math.random
+): { moves: EntityMove[]; hits: CharacterHit[] } {
+  if (players.length === 0) return { moves: [], hits: [] };
+
+  const store = new DbEntityStore(db, worldId);
+  const entities = activeEntities(store, players);
+  if (entities.length === 0) return { moves: [], hits: [] };
+
+  const occupied = new Set<string>();
+  for (const p of players) occupied.add(cellKey(p.levelId, p.x, p.y));
+  for (const e of entities) occupied.add(cellKey(e.levelId, e.x, e.y));
+
+  const ctx = {
+    world: engine,
+    nowMs,
+    players: players.map((p) => ({ id: p.characterId, levelId: p.levelId, x: p.x, y: p.y })),
+    isOccupied: (levelId: number, x: number, y: number) => occupied.has(cellKey(levelId, x, y)),
+    rng
+  };
+
+  const moves: EntityMove[] = [];
+  const hits: CharacterHit[] = [];
+  // Deaths announce themselves (character_died, bones_dropped); a later entity failing rolls them back.
+  heldWorldEvents(db.transaction(() => {
+    for (const e of entities) {
+      const ticked = tickEntity(e, ctx);
+      const hit = monsterAttack(ticked ?? e, ctx);
+      const next = hit?.entity ?? ticked;
+      if (!next) continue;
+
+      store.save(next, nowMs);
+      if (next.levelId !== e.levelId || next.x !== e.x || next.y !== e.y) {
+        occupied.delete(cellKey(e.levelId, e.x, e.y));
+        occupied.add(cellKey(next.levelId, next.x, next.y));
+        moves.push({ entity: next, from: { levelId: e.levelId, x: e.x, y: e.y } });
+      }
+
+      if (hit) {
+        const victim = ctx.players.find((p) => p.id === hit.targetId)!;
+        const cause = { kind: 'monster' as const, entityId: e.entityId, defId: e.defId };
+        const r = damageCharacter(db, worldId, engine, victim.id, hit.damage, cause, nowMs);
+        hits.push({ characterId: victim.id, entity: next, damage: hit.damage, hp: r.hp, died: r.death !== null });
+        // The dead are resurrected elsewhere: out of reach for the rest of this tick.
+        if (r.death) {
+          ctx.players = ctx.players.filter((p) => p.id !== victim.id);
+          occupied.delete(cellKey(victim.levelId, victim.x, victim.y));
+        }
+      }
+    }
+  }));
+
+  return { moves, hits };
+}
+
+/**
+ * Despawn timers for every monster in the world (SIMULATION_RULES.md "Despawn"). A despawning
+ * key-monster releases its doors (D3); its chests stay locked (C3). Returns the despawned.
+ */
+export function runDespawnTimers(db: DB, worldId: string, engine: WorldEngine, players: ActivePlayer[], nowMs: number): Entity[] {
+  if (players.length === 0) return [];
+
+  const store = new DbEntityStore(db, worldId);
+  const keyIds = keyMonsterIds(db, worldId);
+  const despawned: Entity[] = [];
+
+  // Released locks announce themselves; a rollback must leave clients seeing them locked.
+  heldWorldEvents(db.transaction(() => {
+    for (const e of store.ofType('monster')) {
+      const near = isNearPlayer(engine, e, players);
+      const t = despawnTimer(e.despawnAtMs, near, keyIds.has(e.entityId), nowMs);
+
+      if (t.expired) {
+        store.remove(e.entityId);
+        releaseKeyMonsterLocks(db, worldId, engine, e.entityId, 'despawned');
+        despawned.push(e);
+      } else if (t.despawnAtMs !== e.despawnAtMs) {
+        store.save({ ...e, despawnAtMs: t.despawnAtMs }, nowMs);
+      }
+    }
+  }));
+
+  return despawned;
+}
+
+/**
+ * Offline catch-up for despawn timers: every timer that ran out while the world was paused
+ * expires now, timers still running are set from the pause. Key-locks whose monster no longer
+ * exists reset as a despawn (D3). Returns the despawned.
+ */
+export function catchUpDespawns(db: DB, worldId: string, engine: WorldEngine, pausedAtMs: number, nowMs: number): Entity[] {
+  const store = new DbEntityStore(db, worldId);
+  const keyIds = keyMonsterIds(db, worldId);
+  const despawned: Entity[] = [];
+
+  heldWorldEvents(db.transaction(() => {
+    const alive = new Set<string>();
+    for (const e of store.ofType('monster')) {
+      const t = catchUpDespawnTimer(e.despawnAtMs, keyIds.has(e.entityId), pausedAtMs, nowMs);
+      if (t.expired) {
+        store.remove(e.entityId);
+        despawned.push(e);
+      } else {
+        alive.add(e.entityId);
+        if (t.despawnAtMs !== e.despawnAtMs) store.save({ ...e, despawnAtMs: t.despawnAtMs }, nowMs);
+      }
+    }
+
+    for (const id of keyIds) {
+      if (!alive.has(id)) releaseKeyMonsterLocks(db, worldId, engine, id, 'despawned');
+    }
+  }));
+
+  return despawned;
+}
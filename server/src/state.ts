@@ -161,4 +161,13 @@ export function savePosition(
   } else if (charHasUpdatedAtMs) {
     db.prepare(`UPDATE characters SET updated_at_ms = ? WHERE character_id = ?`).run(now, characterId);
   }
-}
\ No newline at end of file
+}
+
+export function saveHp(db: DB, characterId: string, hp: number): void {
+  db.prepare(`UPDATE characters SET hp = ? WHERE character_id = ?`).run(hp, characterId);
+}
+
+export function loadSkills(db: DB, characterId: string): { detect: number; lockpick: number } {
+  const row = db.prepare(`SELECT detect_skill, lockpick_skill FROM characters WHERE character_id = ? LIMIT 1`).get(characterId) as any;
+  return { detect: Number(row?.detect_skill ?? 1), lockpick: Number(row?.lockpick_skill ?? 1) };
+}
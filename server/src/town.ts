@@ -0,0 +1,95 @@
+// server/src/town.ts
+//
+// Authored town (level 0) import. The town is stored purely as cell_overrides/edge_overrides;
+// DbOverlayProvider never seeds a hub or expands frontiers there.
+import type { DB } from './db.js';
+import { TOWN_LEVEL_ID } from '@infinite-dungeon/engine';
+import type { Dir, TownMap, TownSpawn } from '@infinite-dungeon/engine';
+
+function opposite(dir: Dir): Dir {
+  if (dir === 'N') return 'S';
+  if (dir === 'S') return 'N';
+  if (dir === 'E') return 'W';
+  return 'E';
+}
+
+/**
+ * Replaces the world's level 0 overrides with the given town (idempotent: one transaction,
+ * delete then insert).
+ */
+export function importTown(db: DB, worldId: string, town: TownMap): { cells: number; edges: number } {
+  const now = Date.now();
+
+  const delCells = db.prepare('DELETE FROM cell_overrides WHERE world_id = ? AND level_id = ?');
+  const delEdges = db.prepare('DELETE FROM edge_overrides WHERE world_id = ? AND level_id = ?');
+  const insCell = db.prepare(
+    `
+      INSERT OR REPLACE INTO cell_overrides
+        (world_id, level_id, x, y, override_json, updated_at_ms)
+      VALUES
+        (?, ?, ?, ?, ?, ?)
+    `
+  );
+  const insEdge = db.prepare(
+    `
+      INSERT OR REPLACE INTO edge_overrides
+        (world_id, level_id, x, y, dir, edge_type, lock_state_json, override_json, updated_at_ms)
+      VALUES
+        (?, ?, ?, ?, ?, ?, NULL, ?, ?)
+    `
+  );
+
+  const zoneKind = new Map(town.zones.map((z) => [z.id, z.kind]));
+  const spawnAt = new Map(town.spawns.map((s) => [`${s.x},${s.y}`, s]));
+
+  const tx = db.transaction(() => {
+    delCells.run(worldId, TOWN_LEVEL_ID);
+    delEdges.run(worldId, TOWN_LEVEL_ID);
+
+    for (const c of town.cells) {
+      const spawn = spawnAt.get(`${c.x},${c.y}`);
+      const meta = {
+        kind: 'town',
+        areaId: c.zoneId ?? town.name,
+        ...(c.zoneId ? { zone: zoneKind.get(c.zoneId) } : {}),
+        ...(spawn ? { spawn: { id: spawn.id, face: spawn.face } } : {})
+      };
+      insCell.run(worldId, TOWN_LEVEL_ID, c.x, c.y, JSON.stringify(meta), now);
+    }
+
+    const meta = JSON.stringify({ town: town.name });
+    for (const e of town.edges) {
+      const nx = e.dir === 'E' ? e.x + 1 : e.x;
+      const ny = e.dir === 'S' ? e.y + 1 : e.y;
+      insEdge.run(worldId, TOWN_LEVEL_ID, e.x, e.y, e.dir, e.edgeType, meta, now);
+      insEdge.run(worldId, TOWN_LEVEL_ID, nx, ny, opposite(e.dir), e.edgeType, meta, now);
+    }
+  });
+
+  tx();
+  return { cells: town.cells.length, edges: town.edges.length };
+}
+
+/**
+ * Looks up an imported spawn point by id (null if the town was never imported).
+ */
+export function townSpawn(db: DB, worldId: string, spawnId = 'default'): TownSpawn | null {
+  const rows = db
+    .prepare(
+      `
+      SELECT x, y, override_json
+      FROM cell_overrides
+      WHERE world_id = ?
+        AND level_id = ?
+    `
+    )
+    .all(worldId, TOWN_LEVEL_ID) as any[];
+
+  for (const r of rows) {
+    try {
+      const spawn = JSON.parse(String(r.override_json))?.spawn;
+      if (spawn?.id === spawnId) return { id: spawnId, x: Number(r.x), y: Number(r.y), face: spawn.face ?? 'N' };
+    } catch {}
+  }
+  return null;
+}
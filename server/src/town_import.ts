@@ -0,0 +1,43 @@
+// server/src/town_import.ts
+//
+// Imports an authored town map (level 0) into a world. Safe to re-run: level 0 overrides are
+// replaced in one transaction.
+//
+// Usage (from server/):
+//   npm run town:import -- [map=maps/town_v1.json] [world=<world_id>]
+import fs from 'node:fs';
+import path from 'node:path';
+import Database from 'better-sqlite3';
+import { CONFIG } from './config.js';
+import { importTown } from './town.js';
+import { parseTownMap } from '@infinite-dungeon/engine';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const a of argv) {
+    const i = a.indexOf('=');
+    if (i > 0) out[a.slice(0, i)] = a.slice(i + 1);
+  }
+  return out;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const mapPath = path.resolve(args.map ?? 'maps/town_v1.json');
+const town = parseTownMap(JSON.parse(fs.readFileSync(mapPath, 'utf8')));
+
+const db = new Database(CONFIG.dbPath, { fileMustExist: true });
+try {
+  const worldRow = (
+    args.world
+      ? db.prepare('SELECT world_id FROM worlds WHERE world_id = ? LIMIT 1').get(args.world)
+      : db.prepare('SELECT world_id FROM worlds ORDER BY created_at_ms ASC LIMIT 1').get()
+  ) as any;
+  if (!worldRow?.world_id) throw new Error('world not found');
+
+  const r = importTown(db, String(worldRow.world_id), town);
+
+  console.log('DB PATH:', CONFIG.dbPath);
+  console.log(`imported ${town.name} from ${mapPath} into world=${worldRow.world_id}: ${r.cells} cells, ${r.edges} edges`);
+} finally {
+  db.close();
+}
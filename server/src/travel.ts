@@ -0,0 +1,118 @@
+// server/src/travel.ts
+//
+// Auto-travel: plan a route through globally discovered cells, then walk it one step per
+// move cooldown. Any manual move/turn/interact/attack, a blocked step or a level change cancels it,
+// and so does finding the character off the cell the last step left it on (death, sanctuary).
+import { findPathDiscovered } from '@infinite-dungeon/engine';
+import type { DiscoveryProvider, Dir, PathResult, PathStep, WorldEngine } from '@infinite-dungeon/engine';
+
+export type TravelTarget = 'hub' | { x: number; y: number };
+
+// Larger than the engine default: routes back to the hub can be long.
+const TRAVEL_SEARCH_BUDGET = 20000;
+
+export function planTravel(
+  engine: WorldEngine,
+  discovery: DiscoveryProvider,
+  from: { levelId: number; x: number; y: number },
+  target: TravelTarget
+): PathResult {
+  const to = target === 'hub' ? engine.getHub(from.levelId) : target;
+  return findPathDiscovered(engine, discovery, from.levelId, from, { x: to.x, y: to.y }, { maxExpanded: TRAVEL_SEARCH_BUDGET });
+}
+
+export type TravelEventKind = 'travel_step' | 'travel_done' | 'travel_cancelled';
+
+type TravelCell = { levelId: number; x: number; y: number };
+
+export class TravelSession {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private next = 0;
+  private finished = false;
+  // Where the character should be when the next step runs.
+  private at: TravelCell | null = null;
+
+  constructor(
+    private readonly steps: PathStep[],
+    private readonly opts: {
+      // Delay until the next step is allowed (move cooldown).
+      delayMs: () => number;
+      step: (dir: Dir) => { ok: boolean; reason?: string; levelChanged?: boolean };
+      // The character's current cell, as persisted.
+      position: () => TravelCell;
+      onEvent: (kind: TravelEventKind, data: Record<string, unknown>) => void;
+    }
+  ) {}
+
+  get active(): boolean {
+    return !this.finished;
+  }
+
+  start(): void {
+    if (this.steps.length === 0) {
+      this.finish('travel_done', { steps: 0 });
+      return;
+    }
+    this.at = this.opts.position();
+    this.schedule();
+  }
+
+  cancel(reason: string): void {
+    if (this.finished) return;
+    this.finish('travel_cancelled', { reason, remaining: this.steps.length - this.next });
+  }
+
+  private schedule(): void {
+    this.timer = setTimeout(() => this.tick(), Math.max(0, this.opts.delayMs()));
+  }
+
+  // Runs from a timer: an exception here would be uncaught, so it ends the session instead.
+  private tick(): void {
+    this.timer = null;
+    if (this.finished) return;
+
+    try {
+      this.advance();
+    } catch (e: any) {
+      console.warn(`[travel] step failed: ${String(e?.message ?? e)}`);
+      this.cancel('error');
+    }
+  }
+
+  private advance(): void {
+    // Teleported meanwhile: the remaining absolute directions no longer lead anywhere sensible.
+    const here = this.opts.position();
+    if (!this.at || here.levelId !== this.at.levelId || here.x !== this.at.x || here.y !== this.at.y) {
+      this.cancel('moved');
+      return;
+    }
+
+    const s = this.steps[this.next]!;
+    const r = this.opts.step(s.dir);
+    if (!r.ok) {
+      this.cancel(r.reason ?? 'blocked');
+      return;
+    }
+    this.next++;
+    this.at = this.opts.position();
+
+    if (r.levelChanged) {
+      this.cancel('level_changed');
+      return;
+    }
+    if (this.next >= this.steps.length) {
+      this.finish('travel_done', { steps: this.steps.length });
+      return;
+    }
+
+    this.opts.onEvent('travel_step', { x: s.x, y: s.y, remaining: this.steps.length - this.next });
+    this.schedule();
+  }
+
+  private finish(kind: TravelEventKind, data: Record<string, unknown>): void {
+    this.finished = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.opts.onEvent(kind, data);
+  }
+}
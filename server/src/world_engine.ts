@@ -0,0 +1,35 @@
+// server/src/world_engine.ts
+//
+// WorldEngine wiring for one world: generation settings from the worlds row plus the DB-backed
+// providers.
+import type { DB } from './db.js';
+import { DbOverlayProvider } from './overlays.js';
+import { DbDiscoveryProvider } from './discovery.js';
+import { DbFeatureProvider } from './features.js';
+import { DbRevealProvider } from './reveals.js';
+import { DbDetectionProvider } from './detection.js';
+import { CURRENT_GENERATOR_VERSION, WorldEngine } from '@infinite-dungeon/engine';
+
+export function getWorldGen(db: DB, worldId: string): { seed: number; generatorVersion: string } {
+  const row = db.prepare('SELECT seed, generator_version FROM worlds WHERE world_id = ? LIMIT 1').get(worldId) as any;
+  const s = row?.seed;
+  const n = typeof s === 'number' ? s : Number(s);
+  return {
+    seed: Number.isFinite(n) ? n : 12345,
+    generatorVersion: row?.generator_version ? String(row.generator_version) : CURRENT_GENERATOR_VERSION
+  };
+}
+
+// characterId makes this a per-viewer engine: that character's LoS reveals, secret detection and
+// corpse visibility.
+export function makeEngine(db: DB, worldId: string, characterId?: string): WorldEngine {
+  return new WorldEngine({
+    ...getWorldGen(db, worldId),
+    overlay: new DbOverlayProvider(db, worldId),
+    features: new DbFeatureProvider(db, worldId, characterId),
+    discovery: new DbDiscoveryProvider(db, worldId),
+    reveals: characterId ? new DbRevealProvider(db, worldId, characterId) : undefined,
+    detection: characterId ? new DbDetectionProvider(db, worldId, characterId) : undefined,
+    time: { nowMs: () => Date.now() }
+  });
+}
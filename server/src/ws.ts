@@ -1,13 +1,27 @@
 // server/src/ws.ts
 import type { Server as HttpServer } from 'node:http';
 import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
 import { CONFIG } from './config.js';
 import { safeParseClient } from './protocol.js';
 import type { DB } from './db.js';
-import { loadSession, loadActiveCharacter, savePosition } from './state.js';
-import { DbOverlayProvider } from './overlays.js';
+import { loadSession, loadActiveCharacter, loadSkills, saveHp, savePosition } from './state.js';
+import type { ActiveCharacter } from './state.js';
 import { DbDiscoveryProvider } from './discovery.js';
-import { WorldEngine } from '@infinite-dungeon/engine';
+import { planTravel, TravelSession } from './travel.js';
+import { onWorldEvent } from './events.js';
+import { lockpick } from './locks.js';
+import { bonesInRange, buryBones, pickUpBones } from './bones.js';
+import { chestInRange, openChest } from './chests.js';
+import { corpseInRange, lootCorpse } from './corpses.js';
+import { damageCharacter, playerAttack } from './combat.js';
+import { interruptEggChannel, startEggChannel } from './egg.js';
+import { DbEntityStore } from './entities.js';
+import type { ActivePlayer, EntityMove } from './simulation.js';
+import type { SimulationPresence } from './scheduler.js';
+import { makeEngine } from './world_engine.js';
+import { ACTIVE_RADIUS_TILES, ATTACK_COOLDOWN_MS, moveDirToAbs, step, withinRadius } from '@infinite-dungeon/engine';
+import type { Dir, MoveDir, PlayerState } from '@infinite-dungeon/engine';
 
 interface ConnState {
   authed: boolean;
@@ -15,7 +29,8 @@ interface ConnState {
   characterId?: string;
   worldId?: string;
   lastSeq: number;
-  cooldowns: { moveReadyAtMs: number; turnReadyAtMs: number };
+  cooldowns: { moveReadyAtMs: number; turnReadyAtMs: number; attackReadyAtMs: number };
+  travel?: TravelSession;
 }
 
 function normalizeOrigin(origin: string) {
@@ -52,15 +67,13 @@ function originAllowed(origin: string | undefined): boolean {
   return isAllowedDevOrigin(origin);
 }
 
-function getWorldSeed(db: DB, worldId: string): number {
-  const row = db.prepare('SELECT seed FROM worlds WHERE world_id = ? LIMIT 1').get(worldId) as any;
-  const s = row?.seed;
-  const n = typeof s === 'number' ? s : Number(s);
-  return Number.isFinite(n) ? n : 12345;
-}
 
-export function attachWs(httpServer: HttpServer, db: DB): void {
+/**
+ * WebSocket endpoint. Returns the presence view the simulation scheduler ticks from.
+ */
+export function attachWs(httpServer: HttpServer, db: DB): SimulationPresence {
   const wss = new WebSocketServer({ server: httpServer, path: CONFIG.wsPath });
+  const conns = new Map<ConnState, WebSocket>();
 
   wss.on('connection', (ws, req) => {
     const origin = req.headers.origin as string | undefined;
@@ -80,8 +93,15 @@ export function attachWs(httpServer: HttpServer, db: DB): void {
     const state: ConnState = {
       authed: false,
       lastSeq: -1,
-      cooldowns: { moveReadyAtMs: 0, turnReadyAtMs: 0 }
+      cooldowns: { moveReadyAtMs: 0, turnReadyAtMs: 0, attackReadyAtMs: 0 }
     };
+    conns.set(state, ws);
+
+    // Global world changes (door locks, ...) go to every authed socket in that world.
+    const unsubscribe = onWorldEvent((worldId, ev) => {
+      if (!state.authed || state.worldId !== worldId || ws.readyState !== ws.OPEN) return;
+      ws.send(JSON.stringify({ type: 'event', payload: ev }));
+    });
 
     ws.on('message', (data) => {
       let json: any;
@@ -126,7 +146,7 @@ export function attachWs(httpServer: HttpServer, db: DB): void {
         state.characterId = active.characterId;
         state.worldId = active.worldId;
 
-        state.cooldowns = { moveReadyAtMs: Date.now(), turnReadyAtMs: Date.now() };
+        state.cooldowns = { moveReadyAtMs: Date.now(), turnReadyAtMs: Date.now(), attackReadyAtMs: Date.now() };
 
         ws.send(
           JSON.stringify({
@@ -147,62 +167,259 @@ export function attachWs(httpServer: HttpServer, db: DB): void {
       const active = loadActiveCharacter(db, state.userId);
 
       if (msg.type === 'move') {
+        state.travel?.cancel('manual_move');
+
         const now = Date.now();
         if (now < state.cooldowns.moveReadyAtMs) {
           ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'move_cooldown', seq: msg.seq } }));
           return;
         }
 
-        const overlay = new DbOverlayProvider(db, state.worldId);
-        const discovery = new DbDiscoveryProvider(db, state.worldId);
-        const engine = new WorldEngine({
-          seed: getWorldSeed(db, state.worldId),
-          overlay,
-          discovery,
-          time: { nowMs: () => Date.now() }
-        });
+        const r = stepCharacter(ws, db, state, msg.payload.dir, msg.seq);
+        if (!r.ok) {
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: r.reason, seq: msg.seq } }));
+        }
+        return;
+      }
+
+      if (msg.type === 'turn') {
+        state.travel?.cancel('manual_turn');
+
+        const now = Date.now();
+        if (now < state.cooldowns.turnReadyAtMs) {
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'turn_cooldown', seq: msg.seq } }));
+          return;
+        }
+
+        state.cooldowns.turnReadyAtMs = now + CONFIG.turnCooldownMs;
+
+        savePosition(db, active.characterId, state.worldId, active.levelId, active.x, active.y, msg.payload.face);
+
+        ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq } }));
+        sendWorldState(ws, db, state, { ...active, face: msg.payload.face });
+        return;
+      }
 
-        const player = { levelId: active.levelId, x: active.x, y: active.y, face: active.face, hp: active.hp };
-        const r = engine.move(player, state.cooldowns, msg.payload.dir);
+      if (msg.type === 'interact') {
+        state.travel?.cancel('interact');
 
+        const engine = makeEngine(db, state.worldId, active.characterId);
+        const player: PlayerState = { levelId: active.levelId, x: active.x, y: active.y, face: active.face as Dir, hp: active.hp };
+
+        if (msg.payload.action === 'detect') {
+          const d = engine.detect(player, state.cooldowns, loadSkills(db, active.characterId).detect, Math.random);
+          if (!d.ok) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: d.reason, seq: msg.seq } }));
+            return;
+          }
+
+          state.cooldowns.moveReadyAtMs = Date.now() + CONFIG.moveCooldownMs;
+
+          const found = d.found ?? [];
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq, found: found.length } }));
+          if (found.length > 0) ws.send(JSON.stringify({ type: 'event', payload: { kind: 'secrets_detected', data: { found } } }));
+          sendWorldState(ws, db, state, active);
+          return;
+        }
+
+        if (msg.payload.action === 'lockpick') {
+          if (Date.now() < state.cooldowns.moveReadyAtMs) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'move_cooldown', seq: msg.seq } }));
+            return;
+          }
+
+          // door/chest_lock_state_changed reaches this socket through the world event bus.
+          const l = lockpick(db, state.worldId, engine, player, msg.payload.target, loadSkills(db, active.characterId).lockpick);
+          if (!l.ok) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: l.reason, seq: msg.seq } }));
+            return;
+          }
+
+          state.cooldowns.moveReadyAtMs = Date.now() + CONFIG.moveCooldownMs;
+
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq } }));
+          sendWorldState(ws, db, state, active);
+          return;
+        }
+
+        if (msg.payload.action === 'open') {
+          if (Date.now() < state.cooldowns.moveReadyAtMs) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'move_cooldown', seq: msg.seq } }));
+            return;
+          }
+
+          const chest = chestInRange(engine, player, msg.payload.target.chest_id);
+          if (!chest) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'not_in_range', seq: msg.seq } }));
+            return;
+          }
+
+          const o = openChest(db, state.worldId, active.characterId, chest, Date.now());
+          if (!o.ok) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: o.reason, seq: msg.seq } }));
+            return;
+          }
+
+          state.cooldowns.moveReadyAtMs = Date.now() + CONFIG.moveCooldownMs;
+
+          // Traps can kill; a resurrected character is elsewhere, so the view reloads it.
+          if (o.trap) damageCharacter(db, state.worldId, engine, active.characterId, o.trap.damage, { kind: 'trap', trapType: o.trap.type }, Date.now());
+
+          const items = o.items.map((it) => ({ item_id: it.itemId, qty: it.qty }));
+          const opened = { chest_id: chest.chestId, items, trap: o.trap };
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq } }));
+          ws.send(JSON.stringify({ type: 'event', payload: { kind: 'chest_opened', data: opened } }));
+          sendWorldState(ws, db, state, loadActiveCharacter(db, state.userId));
+          return;
+        }
+
+        if (msg.payload.action === 'loot') {
+          if (Date.now() < state.cooldowns.moveReadyAtMs) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'move_cooldown', seq: msg.seq } }));
+            return;
+          }
+
+          const corpse = corpseInRange(engine, player, msg.payload.target.chest_id);
+          if (!corpse) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'not_in_range', seq: msg.seq } }));
+            return;
+          }
+
+          // corpse_chest_removed reaches this socket through the world event bus.
+          const l = lootCorpse(db, state.worldId, active.characterId, corpse, Date.now());
+          if (!l.ok) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: l.reason, seq: msg.seq } }));
+            return;
+          }
+
+          state.cooldowns.moveReadyAtMs = Date.now() + CONFIG.moveCooldownMs;
+
+          const items = l.items.map((it) => ({ item_id: it.itemId, qty: it.qty }));
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq } }));
+          ws.send(JSON.stringify({ type: 'event', payload: { kind: 'corpse_looted', data: { chest_id: corpse.chestId, items } } }));
+          sendWorldState(ws, db, state, active);
+          return;
+        }
+
+        if (msg.payload.action === 'pickup_bones' || msg.payload.action === 'bury_bones') {
+          // No cooldown: anyone may pick up or bury bones immediately.
+          const bones = bonesInRange(engine, player, msg.payload.target.drop_id);
+          if (!bones) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'not_in_range', seq: msg.seq } }));
+            return;
+          }
+
+          // bones_removed reaches this socket through the world event bus.
+          const b =
+            msg.payload.action === 'pickup_bones'
+              ? pickUpBones(db, state.worldId, active.characterId, bones)
+              : buryBones(db, state.worldId, active.characterId, bones, Date.now());
+          if (!b.ok) {
+            ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: b.reason, seq: msg.seq } }));
+            return;
+          }
+
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq } }));
+          sendWorldState(ws, db, state, active);
+          return;
+        }
+
+        const r = msg.payload.action === 'climb' ? engine.climb(player, state.cooldowns) : engine.fall(player, state.cooldowns, true);
         if (!r.ok || !r.player) {
           ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: r.reason, seq: msg.seq } }));
           return;
         }
 
-        state.cooldowns.moveReadyAtMs = now + CONFIG.moveCooldownMs;
+        state.cooldowns.moveReadyAtMs = Date.now() + CONFIG.moveCooldownMs;
 
-        savePosition(db, active.characterId, state.worldId, r.player.levelId, r.player.x, r.player.y, r.player.face);
+        const next = r.player;
+        if (next.hp !== player.hp) saveHp(db, active.characterId, next.hp);
+        savePosition(db, active.characterId, state.worldId, next.levelId, next.x, next.y, next.face);
 
         ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq } }));
-        sendWorldState(ws, db, state, {
-          ...active,
-          levelId: r.player.levelId,
-          x: r.player.x,
-          y: r.player.y,
-          face: r.player.face,
-          hp: r.player.hp
+        if (msg.payload.action === 'jump') sendFallEvent(ws, player, r, true);
+        sendWorldState(ws, db, state, { ...active, levelId: next.levelId, x: next.x, y: next.y, hp: next.hp });
+        return;
+      }
+
+      if (msg.type === 'travel_to') {
+        state.travel?.cancel('replaced');
+
+        // Per-viewer engine: undetected levers are walls for planning too.
+        const engine = makeEngine(db, state.worldId, active.characterId);
+        const plan = planTravel(engine, new DbDiscoveryProvider(db, state.worldId), active, msg.payload.target);
+        if (!plan.ok) {
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: plan.reason, seq: msg.seq } }));
+          return;
+        }
+
+        ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq, steps: plan.steps.length } }));
+
+        const travel = new TravelSession(plan.steps, {
+          delayMs: () => state.cooldowns.moveReadyAtMs - Date.now(),
+          step: (dir) => stepCharacter(ws, db, state, dir, undefined, dir),
+          position: () => {
+            const a = loadActiveCharacter(db, state.userId!);
+            return { levelId: a.levelId, x: a.x, y: a.y };
+          },
+          onEvent: (kind, data) => {
+            if (ws.readyState === ws.OPEN) ws.send(JSON.stringify({ type: 'event', payload: { kind, data } }));
+          }
         });
+        state.travel = travel;
+        travel.start();
         return;
       }
 
-      if (msg.type === 'turn') {
+      if (msg.type === 'attack') {
+        state.travel?.cancel('attack');
+
         const now = Date.now();
-        if (now < state.cooldowns.turnReadyAtMs) {
-          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'turn_cooldown', seq: msg.seq } }));
+        if (now < state.cooldowns.attackReadyAtMs) {
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'attack_cooldown', seq: msg.seq } }));
           return;
         }
 
-        state.cooldowns.turnReadyAtMs = now + CONFIG.turnCooldownMs;
+        // entity_killed reaches this socket through the world event bus.
+        const engine = makeEngine(db, state.worldId, active.characterId);
+        const r = playerAttack(db, state.worldId, engine, active, now);
+        if (!r.ok) {
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: r.reason, seq: msg.seq } }));
+          return;
+        }
 
-        savePosition(db, active.characterId, state.worldId, active.levelId, active.x, active.y, msg.payload.face);
+        state.cooldowns.attackReadyAtMs = now + ATTACK_COOLDOWN_MS;
 
-        ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq } }));
-        sendWorldState(ws, db, state, { ...active, face: msg.payload.face });
+        const result = { ok: true, seq: msg.seq, entity_id: r.entity.entityId, damage: r.damage, target_hp: r.entity.hp, killed: r.killed };
+        ws.send(JSON.stringify({ type: 'action_result', payload: result }));
+        if (r.killed) {
+          const from = { levelId: r.entity.levelId, x: r.entity.x, y: r.entity.y };
+          refreshNearMoves(db, connectedByWorld(db, conns).get(state.worldId) ?? [], [{ entity: r.entity, from }]);
+        } else {
+          sendWorldState(ws, db, state, active);
+        }
         return;
       }
 
-      if (msg.type === 'interact' || msg.type === 'use_egg' || msg.type === 'join_world') {
+      if (msg.type === 'use_egg') {
+        state.travel?.cancel('use_egg');
+
+        // Channel events (started/interrupted/completed) reach this socket through the world event bus.
+        const r = startEggChannel(db, state.worldId, active.characterId, Date.now(), () => {
+          // A travel_to sent during the channel would otherwise keep walking from the hub.
+          state.travel?.cancel('sanctuary');
+          if (ws.readyState === ws.OPEN) sendWorldState(ws, db, state, loadActiveCharacter(db, state.userId!));
+        });
+        if (!r.ok) {
+          ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: r.reason, seq: msg.seq } }));
+          return;
+        }
+
+        ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq: msg.seq, channel_ms: r.channelMs } }));
+        return;
+      }
+
+      if (msg.type === 'join_world') {
         ws.send(JSON.stringify({ type: 'action_result', payload: { ok: false, reason: 'not_implemented', seq: msg.seq } }));
         return;
       }
@@ -211,20 +428,126 @@ export function attachWs(httpServer: HttpServer, db: DB): void {
     });
 
     ws.on('close', (code, reason) => {
+      state.travel?.cancel('disconnected');
+      if (state.characterId) interruptEggChannel(state.characterId, 'disconnected');
+      conns.delete(state);
+      unsubscribe();
       console.log(`[ws] closed code=${code} reason=${reason?.toString?.() ?? ''}`);
     });
   });
+
+  return {
+    playersByWorld: () => {
+      const out = new Map<string, ActivePlayer[]>();
+      for (const [worldId, connected] of connectedByWorld(db, conns)) out.set(worldId, connected.map((c) => c.active));
+      return out;
+    },
+    entitiesMoved: (worldId, moves) => refreshNearMoves(db, connectedByWorld(db, conns).get(worldId) ?? [], moves),
+    charactersHit: (worldId, hits) => {
+      for (const c of connectedByWorld(db, conns).get(worldId) ?? []) {
+        const own = hits.filter((h) => h.characterId === c.active.characterId);
+        if (own.length === 0) continue;
+        // Resurrected elsewhere: auto-travel would replay its path from the respawn point.
+        if (own.some((h) => h.died)) c.state.travel?.cancel('died');
+        if (c.ws.readyState === c.ws.OPEN) sendWorldState(c.ws, db, c.state, c.active);
+      }
+    }
+  };
+}
+
+type Connected = { ws: WebSocket; state: ConnState; active: ActiveCharacter };
+
+// Authed connections grouped by world, with each character's current position.
+function connectedByWorld(db: DB, conns: Map<ConnState, WebSocket>): Map<string, Connected[]> {
+  const byWorld = new Map<string, Connected[]>();
+  for (const [state, ws] of conns) {
+    if (!state.authed || !state.userId || !state.worldId) continue;
+    let active: ActiveCharacter;
+    try {
+      active = loadActiveCharacter(db, state.userId);
+    } catch {
+      // Authed but no character yet: nothing to simulate or refresh for this connection.
+      continue;
+    }
+    const list = byWorld.get(state.worldId) ?? [];
+    list.push({ ws, state, active });
+    byWorld.set(state.worldId, list);
+  }
+  return byWorld;
+}
+
+// Players near a monster that moved (either end of the move) or died get a fresh world_state.
+function refreshNearMoves(db: DB, connected: Connected[], moves: EntityMove[]): void {
+  for (const c of connected) {
+    const near = moves.some((m) =>
+      [m.from, m.entity].some((p) => p.levelId === c.active.levelId && withinRadius(p, c.active, ACTIVE_RADIUS_TILES))
+    );
+    if (near && c.ws.readyState === c.ws.OPEN) sendWorldState(c.ws, db, c.state, c.active);
+  }
+}
+
+/**
+ * One movement step for the connected character (manual move or auto-travel): engine move,
+ * accidental chute fall, persistence, then action_result (when seq is given) and world_state.
+ * faceAfter turns the character toward the step (auto-travel walks facing forward).
+ */
+function stepCharacter(
+  ws: any,
+  db: DB,
+  state: ConnState,
+  moveDir: MoveDir,
+  seq?: number,
+  faceAfter?: Dir
+): { ok: boolean; reason?: string; levelChanged?: boolean } {
+  const active = loadActiveCharacter(db, state.userId!);
+  const engine = makeEngine(db, state.worldId!, active.characterId);
+
+  const player: PlayerState = { levelId: active.levelId, x: active.x, y: active.y, face: active.face as Dir, hp: active.hp };
+
+  // Monsters hold their cell (walls still report 'blocked').
+  const { nx, ny } = step(player.x, player.y, moveDirToAbs(player.face, moveDir));
+  const entities = new DbEntityStore(db, state.worldId!);
+  if (engine.canTraverse(player.levelId, player.x, player.y, player.face, moveDir) && entities.at(player.levelId, nx, ny).length > 0) {
+    return { ok: false, reason: 'occupied' };
+  }
+
+  const r = engine.move(player, state.cooldowns, moveDir);
+  if (!r.ok || !r.player) return { ok: false, reason: r.reason };
+
+  state.cooldowns.moveReadyAtMs = Date.now() + CONFIG.moveCooldownMs;
+
+  // Stepping onto an undetected chute is an accidental fall; detected chutes are safe (chute_detected).
+  let next: PlayerState = { ...r.player, face: faceAfter ?? r.player.face };
+  const fell = engine.fall(next, state.cooldowns, false);
+  if (fell.ok && fell.player) {
+    next = fell.player;
+    saveHp(db, active.characterId, next.hp);
+  }
+
+  savePosition(db, active.characterId, state.worldId!, next.levelId, next.x, next.y, next.face);
+
+  if (seq !== undefined) ws.send(JSON.stringify({ type: 'action_result', payload: { ok: true, seq } }));
+  if (fell.ok) sendFallEvent(ws, r.player, fell, false);
+  sendWorldState(ws, db, state, { ...active, levelId: next.levelId, x: next.x, y: next.y, face: next.face, hp: next.hp });
+
+  return { ok: true, levelChanged: next.levelId !== player.levelId };
+}
+
+function sendFallEvent(ws: any, from: PlayerState, r: { player?: PlayerState; drop?: number; damage?: number }, intentional: boolean): void {
+  ws.send(
+    JSON.stringify({
+      type: 'event',
+      payload: {
+        kind: intentional ? 'chute_jumped' : 'chute_fell',
+        data: { from_level: from.levelId, to_level: r.player!.levelId, drop: r.drop, damage: r.damage, hp: r.player!.hp }
+      }
+    })
+  );
 }
 
 function sendWorldState(ws: any, db: DB, state: ConnState, active: any): void {
-  const overlay = new DbOverlayProvider(db, state.worldId!);
   const discovery = new DbDiscoveryProvider(db, state.worldId!);
-  const engine = new WorldEngine({
-    seed: getWorldSeed(db, state.worldId!),
-    overlay,
-    discovery,
-    time: { nowMs: () => Date.now() }
-  });
+  const engine = makeEngine(db, state.worldId!, active.characterId);
 
   discovery.markDiscovered(active.levelId, active.x, active.y, Date.now());
 
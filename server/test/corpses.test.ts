@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { CORPSE_PARTY_MS, CORPSE_PRIVATE_MS } from '@infinite-dungeon/engine';
+import { dropCorpse, lootCorpse } from '../src/corpses.js';
+import type { CorpseRef } from '../src/corpses.js';
+import { openDb } from '../src/db.js';
+import type { Db } from '../src/db.js';
+import { DbFeatureProvider } from '../src/features.js';
+
+const WORLD = 'w_test';
+const T0 = 1_000_000_000_000;
+const AT = { levelId: 3, x: 7, y: 9 };
+
+// Owner and mate share a party; the stranger does not.
+const OWNER = 'c_owner';
+const MATE = 'c_mate';
+const STRANGER = 'c_stranger';
+
+describe('corpse chests: per-viewer visibility and looting', () => {
+  let db: Db;
+  let corpse: CorpseRef;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(T0);
+
+    db = openDb(':memory:');
+    db.prepare('INSERT INTO worlds(world_id, seed, generator_version, created_at_ms) VALUES (?, ?, ?, ?)').run(WORLD, 4242, 'depth_v1', T0);
+    db.prepare(`INSERT INTO users(user_id, email, created_at_ms) VALUES ('u_test', 'test@example.com', ?)`).run(T0);
+    for (const c of [OWNER, MATE, STRANGER]) {
+      db.prepare(
+        `INSERT INTO characters(character_id, user_id, world_id, name, created_at_ms, updated_at_ms) VALUES (?, 'u_test', ?, ?, ?, ?)`
+      ).run(c, WORLD, c, T0, T0);
+    }
+    db.prepare(`INSERT INTO parties(party_id, created_at_ms) VALUES ('p_test', ?)`).run(T0);
+    for (const c of [OWNER, MATE]) db.prepare(`INSERT INTO party_members(party_id, character_id, joined_at_ms) VALUES ('p_test', ?, ?)`).run(c, T0);
+
+    db.prepare(`INSERT INTO character_items(character_id, item_id, qty, item_meta_json) VALUES (?, 'gold', 12, '{}')`).run(OWNER);
+    corpse = dropCorpse(db, WORLD, OWNER, AT, T0)!;
+  });
+
+  afterEach(() => {
+    db.close();
+    vi.useRealTimers();
+  });
+
+  const sees = (viewer?: string) =>
+    new DbFeatureProvider(db, WORLD, viewer).getFeatures(AT.levelId, AT.x, AT.y).some((f) => f.kind === 'corpse' && f.id === corpse.chestId);
+  const carried = (c: string) => db.prepare(`SELECT item_id, qty FROM character_items WHERE character_id = ?`).all(c);
+
+  test('dropping moves the carried items into the corpse', () => {
+    expect(carried(OWNER)).toEqual([]);
+    const row = db.prepare(`SELECT private_until_ms, party_until_ms, public_after_ms FROM corpse_chests WHERE chest_id = ?`).get(corpse.chestId);
+    expect(row).toEqual({ private_until_ms: T0 + CORPSE_PRIVATE_MS, party_until_ms: T0 + CORPSE_PARTY_MS, public_after_ms: T0 + CORPSE_PARTY_MS });
+  });
+
+  test('a 2-minute-old corpse: only the owner sees it, a stranger cannot loot it', () => {
+    vi.setSystemTime(T0 + 2 * 60_000);
+
+    expect(sees(OWNER)).toBe(true);
+    expect(sees(MATE)).toBe(false);
+    expect(sees(STRANGER)).toBe(false);
+    expect(sees(undefined)).toBe(false);
+
+    expect(lootCorpse(db, WORLD, STRANGER, corpse, Date.now())).toEqual({ ok: false, reason: 'not_visible' });
+    expect(carried(STRANGER)).toEqual([]);
+  });
+
+  test('party members see it after the private window, strangers only once it is public', () => {
+    vi.setSystemTime(T0 + CORPSE_PRIVATE_MS);
+    expect(sees(MATE)).toBe(true);
+    expect(sees(STRANGER)).toBe(false);
+    expect(lootCorpse(db, WORLD, STRANGER, corpse, Date.now())).toEqual({ ok: false, reason: 'not_visible' });
+
+    vi.setSystemTime(T0 + CORPSE_PARTY_MS);
+    expect(sees(STRANGER)).toBe(true);
+    expect(sees(undefined)).toBe(true);
+  });
+
+  test('once public a stranger loots everything and the corpse disappears', () => {
+    vi.setSystemTime(T0 + CORPSE_PARTY_MS);
+
+    expect(lootCorpse(db, WORLD, STRANGER, corpse, Date.now())).toEqual({ ok: true, items: [{ itemId: 'gold', qty: 12 }] });
+    expect(carried(STRANGER)).toEqual([{ item_id: 'gold', qty: 12 }]);
+
+    expect(sees(OWNER)).toBe(false);
+    expect(lootCorpse(db, WORLD, OWNER, corpse, Date.now())).toEqual({ ok: false, reason: 'no_corpse' });
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { emitWorldEvent, heldWorldEvents, onWorldEvent } from '../src/events.js';
+import type { WorldEvent } from '../src/events.js';
+
+const WORLD = 'w_test';
+const ev = (kind: string): WorldEvent => ({ kind, data: {} });
+
+describe('heldWorldEvents', () => {
+  let seen: string[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    seen = [];
+    unsubscribe = onWorldEvent((_worldId, e) => seen.push(e.kind));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  test('events go out in order once the held call returns', () => {
+    const r = heldWorldEvents(() => {
+      emitWorldEvent(WORLD, ev('a'));
+      emitWorldEvent(WORLD, ev('b'));
+      expect(seen).toEqual([]);
+      return 7;
+    });
+
+    expect(r).toBe(7);
+    expect(seen).toEqual(['a', 'b']);
+  });
+
+  test('a throw drops every held event', () => {
+    expect(() =>
+      heldWorldEvents(() => {
+        emitWorldEvent(WORLD, ev('character_died'));
+        throw new Error('rolled back');
+      })
+    ).toThrow('rolled back');
+
+    expect(seen).toEqual([]);
+    emitWorldEvent(WORLD, ev('after'));
+    expect(seen).toEqual(['after']);
+  });
+
+  test('a nested throw caught by the outer call drops only its own events', () => {
+    heldWorldEvents(() => {
+      emitWorldEvent(WORLD, ev('outer'));
+      try {
+        heldWorldEvents(() => {
+          emitWorldEvent(WORLD, ev('inner'));
+          throw new Error('savepoint rolled back');
+        });
+      } catch {}
+      heldWorldEvents(() => emitWorldEvent(WORLD, ev('kept')));
+      expect(seen).toEqual([]);
+    });
+
+    expect(seen).toEqual(['outer', 'kept']);
+  });
+});
@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { chestQuota, lockedDoor, monsterDef, newMonster } from '@infinite-dungeon/engine';
+import { openDb } from '../src/db.js';
+import type { Db } from '../src/db.js';
+import { DbEntityStore } from '../src/entities.js';
+import { onWorldEvent } from '../src/events.js';
+import type { WorldEvent } from '../src/events.js';
+import { DbOverlayProvider } from '../src/overlays.js';
+import { SimulationScheduler } from '../src/scheduler.js';
+import type { ActivePlayer } from '../src/simulation.js';
+import { makeEngine } from '../src/world_engine.js';
+
+const WORLD = 'w_test';
+const LEVEL = 11;
+const T0 = 1_000_000_000_000;
+const MIN = 60_000;
+const HOUR = 60 * MIN;
+
+// Far outside every radius of the player, so the sweep never cancels their timers.
+const RAT = { levelId: LEVEL, x: 500, y: 500 };
+const KEY = { levelId: LEVEL, x: 600, y: 600 };
+const DOOR = { levelId: LEVEL, x: 500, y: 510, dir: 'N' as const };
+
+describe('simulation scheduler: soft pause and offline catch-up', () => {
+  let db: Db;
+  let events: WorldEvent[];
+  let unsubscribe: () => void;
+  let players: ActivePlayer[];
+  let scheduler: SimulationScheduler;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    db = openDb(':memory:');
+    db.prepare('INSERT INTO worlds(world_id, seed, generator_version, created_at_ms) VALUES (?, ?, ?, ?)').run(WORLD, 4242, 'depth_v1', T0);
+
+    const store = new DbEntityStore(db, WORLD);
+    store.insert(newMonster('e_rat', monsterDef('rat')!, RAT), T0);
+    store.insert(newMonster('e_key', monsterDef('goblin')!, KEY), T0);
+    new DbOverlayProvider(db, WORLD).setDoorLockState(DOOR.levelId, DOOR.x, DOOR.y, DOOR.dir, lockedDoor(5, 'e_key'));
+
+    events = [];
+    unsubscribe = onWorldEvent((worldId, ev) => {
+      if (worldId === WORLD) events.push(ev);
+    });
+
+    players = [{ characterId: 'c_test', levelId: LEVEL, x: 5, y: 5 }];
+    scheduler = new SimulationScheduler(db, {
+      playersByWorld: () => new Map(players.length > 0 ? [[WORLD, players]] : []),
+      entitiesMoved: () => {},
+      charactersHit: () => {}
+    });
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    db.close();
+    vi.restoreAllMocks();
+  });
+
+  // Seeded monsters only: the population controller spawns (and offline despawns) its own.
+  const despawnedIds = () =>
+    events
+      .filter((e) => e.kind === 'entity_despawned')
+      .map((e) => String(e.data.entity_id))
+      .filter((id) => id === 'e_rat' || id === 'e_key');
+  const doorLocked = () => makeEngine(db, WORLD).doorLockAt(DOOR.levelId, DOOR.x, DOOR.y, DOOR.dir)!.locked;
+  const entity = (id: string) => new DbEntityStore(db, WORLD).ofType('monster').find((e) => e.entityId === id) ?? null;
+
+  function pauseFor(ms: number, from: number): number {
+    players = [];
+    scheduler.tick(from);
+    players = [{ characterId: 'c_test', levelId: LEVEL, x: 5, y: 5 }];
+    scheduler.tick(from + ms);
+    return from + ms;
+  }
+
+  test('a failing presence lookup skips the tick instead of throwing out of the interval', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken = new SimulationScheduler(db, {
+      playersByWorld: () => {
+        throw new Error('no character for user');
+      },
+      entitiesMoved: () => {},
+      charactersHit: () => {}
+    });
+
+    expect(() => broken.tick(T0)).not.toThrow();
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  test('catch-up expires timers that ran out while paused, without replaying ticks', () => {
+    scheduler.tick(T0);
+    const now = pauseFor(4 * MIN, T0 + 1000);
+
+    // The rat's 180 s timer started at the pause and ran out; the key-monster's 300 s did not.
+    expect(despawnedIds()).toEqual(['e_rat']);
+    expect(entity('e_rat')).toBeNull();
+
+    const key = entity('e_key')!;
+    expect(key.despawnAtMs).toBe(T0 + 1000 + 300_000);
+    expect({ x: key.x, y: key.y }).toEqual({ x: KEY.x, y: KEY.y });
+    expect(doorLocked()).toBe(true);
+
+    const last = db.prepare('SELECT last_simulated_at_ms FROM world_simulation WHERE world_id = ?').get(WORLD) as any;
+    expect(Number(last.last_simulated_at_ms)).toBe(now);
+  });
+
+  test('hours offline: the key-monster despawns, its door resets, chest spawns stay within quota', () => {
+    // Two ticks: the second is the first chest poll, which activates the chunks.
+    scheduler.tick(T0);
+    scheduler.tick(T0 + 5000);
+    const activated = db.prepare(`SELECT COUNT(*) AS n FROM chunk_runtime WHERE world_id = ?`).get(WORLD) as any;
+    expect(Number(activated.n)).toBeGreaterThan(0);
+
+    const now = pauseFor(6 * HOUR, T0 + 6000);
+
+    expect(despawnedIds().sort()).toEqual(['e_key', 'e_rat']);
+    expect(doorLocked()).toBe(false);
+    expect(events.some((e) => e.kind === 'door_lock_state_changed' && e.data.reason === 'key_monster_despawned')).toBe(true);
+
+    // Twelve missed 30 min checks per active chunk, but never more chests than the quota.
+    const perChunk = db
+      .prepare(`SELECT chunk_x, chunk_y, COUNT(*) AS n FROM loot_chests WHERE world_id = ? GROUP BY chunk_x, chunk_y`)
+      .all(WORLD) as any[];
+    for (const r of perChunk) expect(Number(r.n)).toBeLessThanOrEqual(chestQuota(LEVEL));
+
+    const runtime = db
+      .prepare(`SELECT active_chest_count, chest_quota, next_chest_spawn_check_at_ms FROM chunk_runtime WHERE world_id = ?`)
+      .all(WORLD) as any[];
+    for (const r of runtime) {
+      expect(Number(r.active_chest_count)).toBeLessThanOrEqual(Number(r.chest_quota));
+      // Every missed check was accounted for in one go.
+      expect(Number(r.next_chest_spawn_check_at_ms)).toBeGreaterThan(now);
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { Dir, PathStep } from '@infinite-dungeon/engine';
+import { TravelSession } from '../src/travel.js';
+import type { TravelEventKind } from '../src/travel.js';
+
+const DELAY_MS = 500;
+
+const PATH: PathStep[] = [
+  { x: 1, y: 0, dir: 'E' },
+  { x: 2, y: 0, dir: 'E' },
+  { x: 2, y: 1, dir: 'S' }
+];
+
+type StepResult = { ok: boolean; reason?: string; levelChanged?: boolean };
+
+// The character starts at (0,0) on level 1; a successful step puts it on the step's cell.
+function session(steps: PathStep[], step: (dir: Dir, i: number) => StepResult = () => ({ ok: true })) {
+  const events: Array<{ kind: TravelEventKind; data: Record<string, unknown> }> = [];
+  const dirs: Dir[] = [];
+  const pos = { levelId: 1, x: 0, y: 0 };
+  const travel = new TravelSession(steps, {
+    delayMs: () => DELAY_MS,
+    step: (dir) => {
+      const i = dirs.push(dir) - 1;
+      const r = step(dir, i);
+      if (r.ok) Object.assign(pos, { x: steps[i]!.x, y: steps[i]!.y });
+      return r;
+    },
+    position: () => ({ ...pos }),
+    onEvent: (kind, data) => events.push({ kind, data })
+  });
+  return { travel, events, dirs, pos };
+}
+
+describe('TravelSession', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('walks every step, one per delay, then reports done', () => {
+    const { travel, events, dirs } = session(PATH);
+    travel.start();
+
+    vi.advanceTimersByTime(DELAY_MS - 1);
+    expect(dirs).toEqual([]);
+
+    vi.advanceTimersByTime(1 + 2 * DELAY_MS);
+    expect(dirs).toEqual(['E', 'E', 'S']);
+    expect(events.map((e) => e.kind)).toEqual(['travel_step', 'travel_step', 'travel_done']);
+    expect(events[2]!.data).toEqual({ steps: 3 });
+    expect(travel.active).toBe(false);
+  });
+
+  test('an empty path is done at once', () => {
+    const { travel, events } = session([]);
+    travel.start();
+    expect(events).toEqual([{ kind: 'travel_done', data: { steps: 0 } }]);
+  });
+
+  test('a failed step cancels with its reason, blocked by default', () => {
+    const { travel, events, dirs } = session(PATH, (_d, i) => (i === 1 ? { ok: false } : { ok: true }));
+    travel.start();
+    vi.advanceTimersByTime(10 * DELAY_MS);
+
+    expect(dirs).toEqual(['E', 'E']);
+    expect(events.map((e) => e.kind)).toEqual(['travel_step', 'travel_cancelled']);
+    expect(events[1]!.data).toEqual({ reason: 'blocked', remaining: 2 });
+    expect(travel.active).toBe(false);
+  });
+
+  test('a step that changes level cancels', () => {
+    const { travel, events, dirs } = session(PATH, (_d, i) => ({ ok: true, levelChanged: i === 0 }));
+    travel.start();
+    vi.advanceTimersByTime(10 * DELAY_MS);
+
+    expect(dirs).toEqual(['E']);
+    expect(events).toEqual([{ kind: 'travel_cancelled', data: { reason: 'level_changed', remaining: 2 } }]);
+  });
+
+  test('cancel() while a step is pending emits one travel_cancelled and stops stepping', () => {
+    const { travel, events, dirs } = session(PATH);
+    travel.start();
+    vi.advanceTimersByTime(DELAY_MS);
+    expect(dirs).toEqual(['E']);
+
+    travel.cancel('manual_move');
+    travel.cancel('disconnected');
+    vi.advanceTimersByTime(10 * DELAY_MS);
+
+    expect(dirs).toEqual(['E']);
+    expect(events.filter((e) => e.kind === 'travel_cancelled')).toEqual([
+      { kind: 'travel_cancelled', data: { reason: 'manual_move', remaining: 2 } }
+    ]);
+    expect(events.at(-1)!.kind).toBe('travel_cancelled');
+  });
+
+  test('a character moved off its path (death, sanctuary) cancels before the next step', () => {
+    const { travel, events, dirs, pos } = session(PATH);
+    travel.start();
+    vi.advanceTimersByTime(DELAY_MS);
+    expect(dirs).toEqual(['E']);
+
+    Object.assign(pos, { levelId: 0, x: 5, y: 5 });
+    vi.advanceTimersByTime(10 * DELAY_MS);
+
+    expect(dirs).toEqual(['E']);
+    expect(events.map((e) => e.kind)).toEqual(['travel_step', 'travel_cancelled']);
+    expect(events[1]!.data).toEqual({ reason: 'moved', remaining: 2 });
+  });
+
+  test('a step that throws cancels with error instead of escaping the timer', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { travel, events } = session(PATH, () => {
+      throw new Error('db gone');
+    });
+    travel.start();
+    vi.advanceTimersByTime(10 * DELAY_MS);
+
+    expect(events).toEqual([{ kind: 'travel_cancelled', data: { reason: 'error', remaining: 3 } }]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});